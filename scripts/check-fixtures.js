@@ -0,0 +1,72 @@
+// Check the offline Flathub tree in fixtures/flathub (see README.md): every API
+// response must be valid JSON, and every Flathub icon URL in it must point at a
+// PNG or SVG file in the tree, where the app looks for it with a file:// icon host.
+// Run with `npm run check:fixtures`.
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..', 'fixtures', 'flathub');
+const problems = [];
+
+// Helper: all files below `dir`
+function listFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(full) : [full];
+  });
+}
+
+// Helper: every string value in parsed JSON
+function collectStrings(value, out) {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((v) => collectStrings(v, out));
+  }
+  return out;
+}
+
+// Helper: whether a file starts like a PNG or an SVG image
+function isImage(file) {
+  const data = fs.readFileSync(file);
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return true;
+  }
+  const head = data.subarray(0, 1024).toString('utf8').trimStart();
+  return /^(<\?xml[\s\S]*?)?<svg[\s>]/.test(head);
+}
+
+const responses = listFiles(path.join(root, 'api'));
+let icons = 0;
+responses.forEach((file) => {
+  const name = path.relative(root, file);
+  let json = null;
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    problems.push(`${name}: invalid JSON (${e.message})`);
+    return;
+  }
+  collectStrings(json, []).forEach((value) => {
+    let url = null;
+    try {
+      url = new URL(value);
+    } catch (e) {
+      return;
+    }
+    if (!/(^|\.)flathub\.org$/.test(url.hostname) || !/\.(png|svg)$/i.test(url.pathname)) {
+      return;
+    }
+    icons++;
+    const iconFile = path.join(root, decodeURIComponent(url.pathname));
+    if (!fs.existsSync(iconFile)) {
+      problems.push(`${name}: ${value} has no file ${path.relative(root, iconFile)}`);
+    } else if (!isImage(iconFile)) {
+      problems.push(`${name}: ${path.relative(root, iconFile)} is not a PNG or SVG image`);
+    }
+  });
+});
+
+problems.forEach((problem) => console.error(`check-fixtures: ${problem}`));
+console.log(`${responses.length} responses, ${icons} icon URLs, ${problems.length} problems`);
+process.exitCode = problems.length > 0 ? 1 : 0;
@@ -4,6 +4,8 @@
 declare const imports: any;
 declare const ARGV: any;
 declare function log(...args: any[]): void;
+declare function print(...args: any[]): void;
+declare function printerr(...args: any[]): void;
 
 // When multiple GI versions are present, GJS requires selecting the version
 // before calling into `imports.gi`. Set the GTK/GDK/GdkPixbuf versions we expect.
@@ -16,9 +18,9 @@ if (typeof imports !== 'undefined' && imports.gi && imports.gi.versions) {
     imports.gi.versions.GdkPixbuf = imports.gi.versions.GdkPixbuf || '2.0';
     // Prefer libadwaita (Adw) if available
     imports.gi.versions.Adw = imports.gi.versions.Adw || '1';
-    // Prefer libsoup 2.4 if multiple versions are available to avoid GJS warnings
+    // Flathub requests use the async libsoup 3 API (send_and_read_async)
     try {
-      imports.gi.versions.Soup = imports.gi.versions.Soup || '2.4';
+      imports.gi.versions.Soup = imports.gi.versions.Soup || '3.0';
     } catch (e) {}
   } catch (e) {
     // Ignore if versions can't be set (e.g., running outside GJS at build time)
@@ -29,10 +31,20 @@ const { Gio, Gtk, Gdk, GLib, GdkPixbuf } =
   typeof imports !== 'undefined'
     ? imports.gi
     : { Gio: null, Gtk: null, Gdk: null, GLib: null, GdkPixbuf: null };
+// Subcommands that run in command-line (headless) mode instead of the GUI.
+// Declared up front because it is consulted before Adw is initialized.
+const CLI_COMMANDS = ['analyze', 'lint', 'batch', 'audit'];
+
 // Adw (libadwaita) may be available; initialize it if present so the Adwaita style is applied.
+// Skip it in headless mode: initializing libadwaita needs a display.
 let Adw: any = null;
 try {
-  if (typeof imports !== 'undefined' && imports.gi && imports.gi.Adw) {
+  if (
+    typeof imports !== 'undefined' &&
+    imports.gi &&
+    imports.gi.Adw &&
+    !isHeadlessInvocation(typeof ARGV !== 'undefined' ? ARGV : [])
+  ) {
     Adw = imports.gi.Adw;
     if (Adw.init) {
       Adw.init();
@@ -104,6 +116,146 @@ function hslToRgb(h: number, s: number, l: number) {
   return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
 }
 
+// Top-level helpers: sRGB <-> OKLab/OKLCH (https://bottosson.github.io/posts/oklab/).
+// rgb values are 0..255; OKLab L is 0..1, OKLCH hue is in radians.
+function srgbChannelToLinear(c: number) {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearChannelToSrgb(v: number) {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return c * 255;
+}
+
+function rgbToOklab(r: number, g: number, b: number) {
+  const lr = srgbChannelToLinear(r);
+  const lg = srgbChannelToLinear(g);
+  const lb = srgbChannelToLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+// Returns linear-light RGB in 0..1 (may be outside the sRGB gamut)
+function oklabToLinearRgb(L: number, a: number, b: number) {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.291485548 * b, 3);
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+}
+
+function oklabToOklch(L: number, a: number, b: number) {
+  return [L, Math.sqrt(a * a + b * b), Math.atan2(b, a)];
+}
+
+// Convert OKLCH to sRGB (0..255), reducing chroma until the color fits the
+// sRGB gamut so lightness and hue are preserved.
+function oklchToRgbInGamut(L: number, C: number, h: number) {
+  const lightness = Math.max(0, Math.min(1, L));
+  const toLinear = (chroma: number) =>
+    oklabToLinearRgb(lightness, chroma * Math.cos(h), chroma * Math.sin(h));
+  const inGamut = (rgb: number[]) => rgb.every((v) => v >= -1e-4 && v <= 1 + 1e-4);
+  let rgb = toLinear(C);
+  if (!inGamut(rgb)) {
+    let lo = 0;
+    let hi = C;
+    for (let i = 0; i < 20; i++) {
+      const mid = (lo + hi) / 2;
+      if (inGamut(toLinear(mid))) {
+        lo = mid;
+      } else {
+        hi = mid;
+      }
+    }
+    rgb = toLinear(lo);
+  }
+  return rgb.map((v) => Math.round(linearChannelToSrgb(Math.max(0, Math.min(1, v)))));
+}
+
+// Maximum number of candidate palettes reported by the clustering analyzers
+const MAX_CANDIDATES = 5;
+
+// Helper: derive light/dark branding variants from a primary color by shifting
+// its HSL lightness (the rules used by the k-means analyzer)
+function deriveHslVariants(rgb: number[]) {
+  const [ph, psOrig, pl] = rgbToHsl(rgb[0], rgb[1], rgb[2]);
+  // if the chosen color is very desaturated, nudge its saturation up to produce
+  // visually pleasing branding colors (preserve hue)
+  const ps = Math.max(psOrig, 0.12);
+  // produce light/dark variants by shifting lightness; clamp within [0.03,0.97]
+  const clamp01 = (v: number) => Math.max(0.03, Math.min(0.97, v));
+  // Default light/dark deltas. We bias the dark variant to be noticeably
+  // darker than the primary in most cases so the "dark" branding color is
+  // actually darker than the primary color.
+  const DEFAULT_LIGHT_DELTA = 0.22;
+  const DEFAULT_DARK_DELTA = 0.26;
+  let lightL = clamp01(pl + DEFAULT_LIGHT_DELTA);
+  let darkL = clamp01(pl - DEFAULT_DARK_DELTA);
+
+  // If original is already very light/dark, adjust variants to avoid extremes
+  if (pl > 0.85) {
+    // very light primary: keep light variant slightly less extreme, dark should be much darker
+    lightL = clamp01(pl - 0.08);
+    darkL = clamp01(pl - 0.3);
+  } else if (pl < 0.15) {
+    // very dark primary: make light variant lighter for visibility, but still
+    // keep the dark variant darker than the primary where possible
+    lightL = clamp01(pl + 0.3);
+    darkL = clamp01(pl - 0.08);
+  }
+
+  // Ensure the dark variant is actually darker than the primary by a small gap
+  // to avoid situations where rounding or clamping made it equal or lighter.
+  const MIN_DARK_GAP = 0.12; // minimum difference in lightness between primary and dark
+  try {
+    if (pl - darkL < MIN_DARK_GAP) {
+      darkL = clamp01(pl - MIN_DARK_GAP);
+    }
+  } catch (e) {}
+
+  const lightRgb = hslToRgb(ph, ps, lightL);
+  const darkRgb = hslToRgb(ph, ps, darkL);
+
+  return {
+    light: safeRgbToHex(lightRgb[0], lightRgb[1], lightRgb[2]),
+    dark: safeRgbToHex(darkRgb[0], darkRgb[1], darkRgb[2]),
+  };
+}
+
+// Helper: pick the clusters listed as candidates: the best-scoring ones, always
+// including the chosen cluster, ordered by score (highest first)
+function rankedClusters<T extends { count: number; score: number }>(clusters: T[], chosen: T) {
+  const ranked = clusters.filter((c) => c.count > 0).slice(0, MAX_CANDIDATES);
+  if (ranked.indexOf(chosen) === -1) {
+    ranked[ranked.length - 1] = chosen;
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+// Helper: short explanation of why a candidate palette was suggested: share of
+// sampled pixels, a color detail and the best text contrast of both variants
+function describeCandidate(
+  share: number,
+  detail: string,
+  variants: { light: string; dark: string },
+) {
+  const best = (hex: string) =>
+    Math.max(contrastRatio(hex, '#ffffff'), contrastRatio(hex, '#000000')).toFixed(1);
+  return `${Math.round(share * 100)}% of pixels, ${detail}, contrast ${best(
+    variants.light,
+  )}:1 light / ${best(variants.dark)}:1 dark`;
+}
+
 // Helper: analyze pixbuf and return primary/light/dark colors
 // Original analyzer (k-means style). Keep as one implementation.
 function analyzePixbuf_kmeans(pixbuf: any) {
@@ -239,52 +391,29 @@ function analyzePixbuf_kmeans(pixbuf: any) {
       chosen = moreSat[0];
     }
   }
-  const primaryRgb = chosen.rgb;
-  const primaryHsl: [number, number, number] = [chosen.hsl[0], chosen.hsl[1], chosen.hsl[2]];
-
-  const [ph, psOrig, pl] = primaryHsl || rgbToHsl(primaryRgb[0], primaryRgb[1], primaryRgb[2]);
-  // if the chosen color is very desaturated, nudge its saturation up to produce
-  // visually pleasing branding colors (preserve hue)
-  const ps = Math.max(psOrig, 0.12);
-  // produce light/dark variants by shifting lightness; clamp within [0.03,0.97]
-  const clamp01 = (v: number) => Math.max(0.03, Math.min(0.97, v));
-  // Default light/dark deltas. We bias the dark variant to be noticeably
-  // darker than the primary in most cases so the "dark" branding color is
-  // actually darker than the primary color.
-  const DEFAULT_LIGHT_DELTA = 0.22;
-  const DEFAULT_DARK_DELTA = 0.26;
-  let lightL = clamp01(pl + DEFAULT_LIGHT_DELTA);
-  let darkL = clamp01(pl - DEFAULT_DARK_DELTA);
-
-  // If original is already very light/dark, adjust variants to avoid extremes
-  if (pl > 0.85) {
-    // very light primary: keep light variant slightly less extreme, dark should be much darker
-    lightL = clamp01(pl - 0.08);
-    darkL = clamp01(pl - 0.3);
-  } else if (pl < 0.15) {
-    // very dark primary: make light variant lighter for visibility, but still
-    // keep the dark variant darker than the primary where possible
-    lightL = clamp01(pl + 0.3);
-    darkL = clamp01(pl - 0.08);
-  }
-
-  // Ensure the dark variant is actually darker than the primary by a small gap
-  // to avoid situations where rounding or clamping made it equal or lighter.
-  const MIN_DARK_GAP = 0.12; // minimum difference in lightness between primary and dark
-  try {
-    if (pl - darkL < MIN_DARK_GAP) {
-      darkL = clamp01(pl - MIN_DARK_GAP);
-    }
-  } catch (e) {}
+  const variants = deriveHslVariants(chosen.rgb);
 
-  const lightRgb = hslToRgb(ph, ps, lightL);
-  const darkRgb = hslToRgb(ph, ps, darkL);
+  // List the best clusters as candidates, scored relative to the top cluster
+  const total = samples.length;
+  const candidates = rankedClusters(clusters, chosen).map((c) => {
+    const v = c === chosen ? variants : deriveHslVariants(c.rgb);
+    const primary = safeRgbToHex(c.rgb[0], c.rgb[1], c.rgb[2]);
+    return {
+      primary,
+      light: v.light,
+      dark: v.dark,
+      score: clusters[0].score > 0 ? c.score / clusters[0].score : 0,
+      reason: describeCandidate(c.count / total, `saturation ${c.sat.toFixed(2)}`, v),
+      suggested: c === chosen,
+    };
+  });
 
   // Return hex strings
   return {
-    primary: safeRgbToHex(primaryRgb[0], primaryRgb[1], primaryRgb[2]),
-    light: safeRgbToHex(lightRgb[0], lightRgb[1], lightRgb[2]),
-    dark: safeRgbToHex(darkRgb[0], darkRgb[1], darkRgb[2]),
+    primary: safeRgbToHex(chosen.rgb[0], chosen.rgb[1], chosen.rgb[2]),
+    light: variants.light,
+    dark: variants.dark,
+    candidates,
   };
 }
 
@@ -493,11 +622,22 @@ function analyzePixbuf_complementary(pixbuf: any) {
   }
 }
 
-// Dispatcher: choose which analyzer to run based on currentAlgorithm
-function analyzePixbufDispatch(pixbuf: any) {
+// Dispatcher: choose which analyzer to run based on currentAlgorithm (or an
+// explicit algorithm id, as used by the command-line mode). With a `region`, only
+// that part of the image is sampled.
+function analyzePixbufDispatch(pixbuf: any, algorithm?: string, region?: any) {
+  const prepared = prepareAnalysisPixbuf(pixbuf, region);
+  const colors = applyDerivationMode(
+    withCandidates(runAnalyzer(prepared.pixbuf, algorithm || currentAlgorithm)),
+  );
+  colors.backgroundShare = prepared.backgroundShare;
+  return colors;
+}
+
+function runAnalyzer(pixbuf: any, algorithm: string): any {
   if (!pixbuf) return { primary: '#888888', light: '#bbbbbb', dark: '#444444' };
   try {
-    switch (currentAlgorithm) {
+    switch (algorithm) {
       case 'hsl-shift':
         return analyzePixbuf_hslShift(pixbuf);
       case 'complementary':
@@ -508,6 +648,8 @@ function analyzePixbufDispatch(pixbuf: any) {
         return analyzePixbuf_vivid(pixbuf);
       case 'average':
         return analyzePixbuf_average(pixbuf);
+      case 'oklab':
+        return analyzePixbuf_oklab(pixbuf);
       case 'kmeans':
       default:
         return analyzePixbuf_kmeans(pixbuf);
@@ -517,6 +659,327 @@ function analyzePixbufDispatch(pixbuf: any) {
   }
 }
 
+// Default minimum contrast a branding color must reach against the banner text
+// (WCAG AA for normal text)
+const DEFAULT_MIN_CONTRAST = 4.5;
+
+// Text colors GNOME Software draws on top of the branding color in its banners:
+// dark text on the light-scheme color, white text on the dark-scheme color
+const BANNER_TEXT_ON_LIGHT = '#000000';
+const BANNER_TEXT_ON_DARK = '#ffffff';
+
+// How light/dark variants are derived: 'delta' uses each analyzer's fixed
+// lightness shifts, 'contrast' additionally moves the variants' lightness until
+// they reach `targetContrast` against the banner text color.
+let derivationMode: 'delta' | 'contrast' = 'delta';
+let targetContrast = DEFAULT_MIN_CONTRAST;
+
+// Helper: move a color's HSL lightness towards white (direction 1) or black (-1)
+// just far enough to reach `target` contrast against `textHex`, keeping hue and
+// saturation. Colors that already meet the target are returned unchanged.
+function adjustLightnessForContrast(
+  hex: string,
+  textHex: string,
+  target: number,
+  direction: number,
+) {
+  if (contrastRatio(hex, textHex) >= target) {
+    return hex;
+  }
+  const [r, g, b] = hexToRgb(hex);
+  const [h, s, l] = rgbToHsl(r, g, b);
+  const withLightness = (L: number) => {
+    const rgb = hslToRgb(h, s, L);
+    return safeRgbToHex(rgb[0], rgb[1], rgb[2]);
+  };
+  // Contrast against the text grows monotonically towards the bound, so bisect
+  // between the current lightness (fails) and the bound (best possible)
+  let fail = l;
+  let pass = direction > 0 ? 1 : 0;
+  if (contrastRatio(withLightness(pass), textHex) < target) {
+    return withLightness(pass);
+  }
+  for (let i = 0; i < 24; i++) {
+    const mid = (fail + pass) / 2;
+    if (contrastRatio(withLightness(mid), textHex) >= target) {
+      pass = mid;
+    } else {
+      fail = mid;
+    }
+  }
+  return withLightness(pass);
+}
+
+// Helper: apply the target-contrast derivation (when enabled) to an analyzer
+// result and its candidates
+function applyDerivationMode(colors: any) {
+  if (derivationMode !== 'contrast') {
+    return colors;
+  }
+  const adjust = (c: any) => {
+    const light = adjustLightnessForContrast(c.light, BANNER_TEXT_ON_LIGHT, targetContrast, 1);
+    const dark = adjustLightnessForContrast(c.dark, BANNER_TEXT_ON_DARK, targetContrast, -1);
+    const changed = light !== c.light || dark !== c.dark;
+    return Object.assign({}, c, {
+      light,
+      dark,
+      reason:
+        c.reason !== undefined && changed
+          ? `${c.reason} (adjusted to ${targetContrast}:1)`
+          : c.reason,
+    });
+  };
+  const result = adjust(colors);
+  if (colors.candidates) {
+    result.candidates = colors.candidates.map(adjust);
+  }
+  return result;
+}
+
+// Helper: make sure an analyzer result carries a `candidates` list. Analyzers
+// that compute a single answer have no alternatives, so their list is empty and
+// the candidates box stays hidden.
+function withCandidates(colors: any): {
+  primary: string;
+  light: string;
+  dark: string;
+  candidates: Array<{
+    primary: string;
+    light: string;
+    dark: string;
+    score: number;
+    reason: string;
+    suggested: boolean;
+  }>;
+} {
+  return {
+    primary: colors.primary,
+    light: colors.light,
+    dark: colors.dark,
+    candidates: colors.candidates || [],
+  };
+}
+
+// Background detection: opaque pixels within this RGB distance of a seed color
+// count as part of the icon's backdrop
+const BACKGROUND_TOLERANCE = 32;
+// A "backdrop" covering more than this share of the opaque pixels is most likely
+// the icon itself, so no mask is produced
+const BACKGROUND_MAX_SHARE = 0.9;
+// The backdrop color must be the first opaque color met on more than this share of
+// the walks inwards from the border; icons that are mostly transparent there (e.g.
+// a logo that only touches the edges) have no opaque backdrop to remove
+const BACKGROUND_MIN_BORDER_SHARE = 0.5;
+
+// When enabled, the detected backdrop is made transparent before analysis
+let detectBackground = false;
+// When enabled, the previews highlight the pixels detected as backdrop
+let showBackgroundMask = false;
+
+// Helper: find an opaque backdrop by flood-filling from the image border. Walking
+// straight inwards from each border pixel (up to a quarter of the icon) stops at the
+// first opaque pixel, so full-bleed backdrops are seeded at the border itself and inset
+// ones (rounded squares or circles with transparent padding) at their outline. Seeds
+// are the pixels matching the dominant color of those; when that color is not met on
+// most walks there is no backdrop. Returns a width*height array (1 = backdrop) and the
+// masked share of the opaque pixels, or null when no backdrop was found.
+function detectBackgroundMask(pixbuf: any) {
+  const width = pixbuf.get_width();
+  const height = pixbuf.get_height();
+  const rowstride = pixbuf.get_rowstride();
+  const n_channels = pixbuf.get_n_channels();
+  const pixels = pixbuf.get_pixels();
+  const hasAlpha = n_channels === 4;
+  const rgbAt = (x: number, y: number) => {
+    const idx = y * rowstride + x * n_channels;
+    return [pixels[idx] & 0xff, pixels[idx + 1] & 0xff, pixels[idx + 2] & 0xff];
+  };
+  const isOpaque = (x: number, y: number) =>
+    !hasAlpha || (pixels[y * rowstride + x * n_channels + 3] & 0xff) >= 128;
+  const tolerance2 = BACKGROUND_TOLERANCE * BACKGROUND_TOLERANCE;
+  const close = (a: number[], b: number[]) => {
+    const dr = a[0] - b[0];
+    const dg = a[1] - b[1];
+    const db = a[2] - b[2];
+    return dr * dr + dg * dg + db * db <= tolerance2;
+  };
+
+  // The first opaque pixel of each walk from a border pixel straight inwards
+  const maxSteps = Math.max(1, Math.floor(Math.min(width, height) / 4));
+  const border: Array<{ x: number; y: number; rgb: number[] | null }> = [];
+  const walk = (sx: number, sy: number, dx: number, dy: number) => {
+    for (let i = 0; i < maxSteps; i++) {
+      const x = sx + dx * i;
+      const y = sy + dy * i;
+      if (isOpaque(x, y)) {
+        border.push({ x, y, rgb: rgbAt(x, y) });
+        return;
+      }
+    }
+    border.push({ x: sx, y: sy, rgb: null });
+  };
+  for (let x = 0; x < width; x++) {
+    walk(x, 0, 0, 1);
+    walk(x, height - 1, 0, -1);
+  }
+  for (let y = 0; y < height; y++) {
+    walk(0, y, 1, 0);
+    walk(width - 1, y, -1, 0);
+  }
+  const opaqueBorder = border.filter((b) => b.rgb !== null);
+  if (opaqueBorder.length * 2 <= border.length) {
+    return null;
+  }
+  // Dominant seed color, judged on up to 64 evenly spaced opaque seeds
+  const step = Math.max(1, Math.floor(opaqueBorder.length / 64));
+  const samples = opaqueBorder.filter((b, i) => i % step === 0);
+  let backdrop = samples[0].rgb as number[];
+  let bestCount = -1;
+  samples.forEach((candidate) => {
+    const count = samples.filter((b) => close(b.rgb as number[], candidate.rgb as number[])).length;
+    if (count > bestCount) {
+      bestCount = count;
+      backdrop = candidate.rgb as number[];
+    }
+  });
+  const shared = opaqueBorder
+    .filter((b) => close(b.rgb as number[], backdrop))
+    .map((b) => ({ x: b.x, y: b.y, rgb: backdrop }));
+  if (shared.length <= border.length * BACKGROUND_MIN_BORDER_SHARE) {
+    return null;
+  }
+
+  const mask = new Uint8Array(width * height);
+  shared.forEach((seed) => {
+    const start = seed.y * width + seed.x;
+    if (mask[start]) {
+      return;
+    }
+    mask[start] = 1;
+    const stack = [start];
+    while (stack.length > 0) {
+      const p = stack.pop() as number;
+      const x = p % width;
+      const y = (p - x) / width;
+      const neighbours = [
+        [x - 1, y],
+        [x + 1, y],
+        [x, y - 1],
+        [x, y + 1],
+      ];
+      for (let n = 0; n < neighbours.length; n++) {
+        const [nx, ny] = neighbours[n];
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+          continue;
+        }
+        const q = ny * width + nx;
+        if (!mask[q] && isOpaque(nx, ny) && close(rgbAt(nx, ny), seed.rgb)) {
+          mask[q] = 1;
+          stack.push(q);
+        }
+      }
+    }
+  });
+
+  let opaque = 0,
+    masked = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isOpaque(x, y)) {
+        opaque++;
+        if (mask[y * width + x]) {
+          masked++;
+        }
+      }
+    }
+  }
+  const share = opaque > 0 ? masked / opaque : 0;
+  if (masked === 0 || share > BACKGROUND_MAX_SHARE) {
+    return null;
+  }
+  return { mask, share };
+}
+
+// Helper: RGBA copy of `pixbuf` where `paint(x, y, rgba)` may rewrite each pixel
+function mapPixbufPixels(pixbuf: any, paint: (x: number, y: number, rgba: number[]) => number[]) {
+  const width = pixbuf.get_width();
+  const height = pixbuf.get_height();
+  const rowstride = pixbuf.get_rowstride();
+  const n_channels = pixbuf.get_n_channels();
+  const pixels = pixbuf.get_pixels();
+  const out = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = y * rowstride + x * n_channels;
+      const rgba = [
+        pixels[idx] & 0xff,
+        pixels[idx + 1] & 0xff,
+        pixels[idx + 2] & 0xff,
+        n_channels === 4 ? pixels[idx + 3] & 0xff : 255,
+      ];
+      out.set(paint(x, y, rgba), (y * width + x) * 4);
+    }
+  }
+  return GdkPixbuf.Pixbuf.new_from_bytes(
+    new GLib.Bytes(out),
+    GdkPixbuf.Colorspace.RGB,
+    true,
+    8,
+    width,
+    height,
+    width * 4,
+  );
+}
+
+// Helper: the part of `pixbuf` covered by `region`, a rectangle normalized to the
+// image's centered square crop (what the previews show). Returns the pixbuf
+// itself when the region is empty.
+function cropPixbufToRegion(pixbuf: any, region: { x: number; y: number; w: number; h: number }) {
+  const width = pixbuf.get_width();
+  const height = pixbuf.get_height();
+  const side = Math.min(width, height);
+  const left = Math.floor((width - side) / 2);
+  const top = Math.floor((height - side) / 2);
+  const x0 = Math.min(width - 1, left + Math.floor(region.x * side));
+  const y0 = Math.min(height - 1, top + Math.floor(region.y * side));
+  const x1 = Math.min(width, left + Math.ceil((region.x + region.w) * side));
+  const y1 = Math.min(height, top + Math.ceil((region.y + region.h) * side));
+  if (x1 <= x0 || y1 <= y0) {
+    return pixbuf;
+  }
+  return pixbuf.new_subpixbuf(x0, y0, x1 - x0, y1 - y0);
+}
+
+// Helper: the pixbuf the analyzers should sample: cropped to `region` when one is
+// given, and with background detection on, the detected backdrop is made
+// transparent (the analyzers skip transparent pixels). `backgroundShare` is the
+// masked share of the opaque pixels, or null when detection is off.
+function prepareAnalysisPixbuf(pixbuf: any, region?: any) {
+  if (pixbuf && region) {
+    try {
+      pixbuf = cropPixbufToRegion(pixbuf, region);
+    } catch (e) {
+      log('Cropping to the selected region failed:', e);
+    }
+  }
+  if (!detectBackground || !pixbuf) {
+    return { pixbuf, backgroundShare: null };
+  }
+  try {
+    const background = detectBackgroundMask(pixbuf);
+    if (background) {
+      const width = pixbuf.get_width();
+      const masked = mapPixbufPixels(pixbuf, (x, y, rgba) =>
+        background.mask[y * width + x] ? [rgba[0], rgba[1], rgba[2], 0] : rgba,
+      );
+      return { pixbuf: masked, backgroundShare: background.share };
+    }
+  } catch (e) {
+    log('Background detection failed:', e);
+  }
+  return { pixbuf, backgroundShare: 0 };
+}
+
 // New analyzer: choose the color that maximizes contrast vs white or black
 function analyzePixbuf_contrastMax(pixbuf: any) {
   try {
@@ -662,6 +1125,153 @@ function analyzePixbuf_average(pixbuf: any) {
   }
 }
 
+// Helper: derive light/dark branding variants from an OKLCH color by shifting
+// its lightness; chroma and hue are kept (gamut-mapped back to sRGB)
+function deriveOklchVariants(lch: number[]) {
+  const [L, C, h] = lch;
+  const clampL = (v: number) => Math.max(0.12, Math.min(0.96, v));
+  let lightL = clampL(L + 0.16);
+  let darkL = clampL(L - 0.2);
+  if (L > 0.88) {
+    lightL = clampL(L - 0.06);
+    darkL = clampL(L - 0.28);
+  } else if (L < 0.2) {
+    lightL = clampL(L + 0.28);
+    darkL = clampL(L - 0.06);
+  }
+  const lightRgb = oklchToRgbInGamut(lightL, C, h);
+  const darkRgb = oklchToRgbInGamut(darkL, C, h);
+  return {
+    light: safeRgbToHex(lightRgb[0], lightRgb[1], lightRgb[2]),
+    dark: safeRgbToHex(darkRgb[0], darkRgb[1], darkRgb[2]),
+  };
+}
+
+// New analyzer: k-means in the perceptual OKLab space. Light/dark variants shift
+// OKLCH lightness while keeping chroma and hue (gamut-mapped back to sRGB).
+function analyzePixbuf_oklab(pixbuf: any) {
+  try {
+    const width = pixbuf.get_width();
+    const height = pixbuf.get_height();
+    const rowstride = pixbuf.get_rowstride();
+    const n_channels = pixbuf.get_n_channels();
+    const pixels = pixbuf.get_pixels();
+    const hasAlpha = n_channels === 4;
+    const step = Math.max(1, Math.floor(Math.min(width, height) / 60));
+    const samples: number[][] = [];
+    for (let y = 0; y < height; y += step) {
+      for (let x = 0; x < width; x += step) {
+        try {
+          const idx = y * rowstride + x * n_channels;
+          if (hasAlpha) {
+            const a = pixels[idx + 3] & 0xff;
+            if (a < 10) continue;
+          }
+          samples.push(
+            rgbToOklab(pixels[idx] & 0xff, pixels[idx + 1] & 0xff, pixels[idx + 2] & 0xff),
+          );
+        } catch (e) {}
+      }
+    }
+    if (samples.length === 0) return { primary: '#888888', light: '#bbbbbb', dark: '#444444' };
+
+    const k = Math.min(6, Math.max(2, Math.floor(samples.length / 20)));
+    const centroids: number[][] = [];
+    for (let i = 0; i < k; i++) {
+      centroids.push(samples[Math.floor((i * samples.length) / k)].slice());
+    }
+    const assign = new Array(samples.length).fill(0);
+    for (let iter = 0; iter < 12; iter++) {
+      let changed = false;
+      for (let i = 0; i < samples.length; i++) {
+        const p = samples[i];
+        let best = 0;
+        let bestDist = Number.POSITIVE_INFINITY;
+        for (let c = 0; c < k; c++) {
+          const d0 = p[0] - centroids[c][0];
+          const d1 = p[1] - centroids[c][1];
+          const d2 = p[2] - centroids[c][2];
+          const dist = d0 * d0 + d1 * d1 + d2 * d2;
+          if (dist < bestDist) {
+            bestDist = dist;
+            best = c;
+          }
+        }
+        if (assign[i] !== best) {
+          assign[i] = best;
+          changed = true;
+        }
+      }
+      const sums = new Array(k).fill(null).map(() => [0, 0, 0]);
+      const counts = new Array(k).fill(0);
+      for (let i = 0; i < samples.length; i++) {
+        const a = assign[i];
+        sums[a][0] += samples[i][0];
+        sums[a][1] += samples[i][1];
+        sums[a][2] += samples[i][2];
+        counts[a]++;
+      }
+      for (let c = 0; c < k; c++) {
+        if (counts[c] > 0) {
+          const next = [sums[c][0] / counts[c], sums[c][1] / counts[c], sums[c][2] / counts[c]];
+          if (next.some((v, i) => Math.abs(v - centroids[c][i]) > 1e-6)) {
+            changed = true;
+          }
+          centroids[c] = next;
+        }
+      }
+      if (!changed) {
+        break;
+      }
+    }
+
+    // Score clusters like the sRGB k-means: size biased towards colorful clusters.
+    // OKLCH chroma of ~0.2 is treated as fully saturated.
+    const counts = new Array(k).fill(0);
+    for (let i = 0; i < assign.length; i++) counts[assign[i]]++;
+    const clusters = centroids.map((lab, c) => {
+      const lch = oklabToOklch(lab[0], lab[1], lab[2]);
+      const colorfulness = Math.min(1, lch[1] / 0.2);
+      return { count: counts[c], lch, colorfulness, score: counts[c] * (1 + colorfulness * 3) };
+    });
+    clusters.sort((a, b) => b.score - a.score);
+    let chosen = clusters[0];
+    if (chosen.lch[1] < 0.03) {
+      const minCount = Math.max(1, Math.floor(samples.length * 0.03));
+      const moreChroma = clusters
+        .filter((c) => c.count >= minCount)
+        .sort((a, b) => b.lch[1] - a.lch[1]);
+      if (moreChroma.length > 0 && moreChroma[0].lch[1] > chosen.lch[1] + 0.02) {
+        chosen = moreChroma[0];
+      }
+    }
+
+    const [L, C, h] = chosen.lch;
+    const primaryRgb = oklchToRgbInGamut(L, C, h);
+    const variants = deriveOklchVariants(chosen.lch);
+    const candidates = rankedClusters(clusters, chosen).map((c) => {
+      const v = c === chosen ? variants : deriveOklchVariants(c.lch);
+      const rgb = oklchToRgbInGamut(c.lch[0], c.lch[1], c.lch[2]);
+      return {
+        primary: safeRgbToHex(rgb[0], rgb[1], rgb[2]),
+        light: v.light,
+        dark: v.dark,
+        score: clusters[0].score > 0 ? c.score / clusters[0].score : 0,
+        reason: describeCandidate(c.count / samples.length, `chroma ${c.lch[1].toFixed(3)}`, v),
+        suggested: c === chosen,
+      };
+    });
+    return {
+      primary: safeRgbToHex(primaryRgb[0], primaryRgb[1], primaryRgb[2]),
+      light: variants.light,
+      dark: variants.dark,
+      candidates,
+    };
+  } catch (e) {
+    return { primary: '#888888', light: '#bbbbbb', dark: '#444444' };
+  }
+}
+
 // Preview widgets/providers (populated in createApp)
 let imageLight: any = null;
 let imageDark: any = null;
@@ -673,6 +1283,30 @@ let overlayLight: any = null;
 let overlayDark: any = null;
 let overlayLabelLight: any = null;
 let overlayLabelDark: any = null;
+// Color labels in colorsBox (recreated by handleFile)
+let colorLabelLight: any = null;
+let colorLabelDark: any = null;
+// List of ranked candidate palettes for the current image
+let candidatesBox: any = null;
+// Column beside the previews showing the branding published on Flathub
+let publishedBrandingBox: any = null;
+// Manual color editors ({ button, entry } per scheme) and their container
+let colorEditorLight: any = null;
+let colorEditorDark: any = null;
+let colorEditorsBox: any = null;
+// Set while syncColorEditors updates the editors so their handlers ignore it
+let updatingColorEditors = false;
+// Eyedropper state: while active, clicks on the previews pick the primary color,
+// averaging the opaque pixels within `eyedropperRadius` preview pixels
+let eyedropperActive = false;
+let eyedropperRadius = 2;
+// Region of interest as a rectangle normalized to the preview square (the image's
+// centered square crop); when set, only this part of the image is analyzed
+let analysisRegion: { x: number; y: number; w: number; h: number } | null = null;
+// While active, dragging on the light preview selects analysisRegion
+let regionSelectActive = false;
+// Rectangle being dragged, normalized like analysisRegion
+let regionDraft: { x: number; y: number; w: number; h: number } | null = null;
 // Keep track of the currently loaded image path so size-allocate handlers can rescale it
 let currentImagePath: string | null = null;
 // Keep global handles to the preview frames so we can query their allocation
@@ -685,13 +1319,33 @@ let drawingDark: any = null;
 // Currently selected algorithm (can be switched via UI buttons)
 let currentAlgorithm: string = 'kmeans';
 
+// Algorithms understood by analyzePixbufDispatch, in the order shown in the UI
+const ALGORITHMS: Array<{ id: string; label: string }> = [
+  { id: 'kmeans', label: 'K-Means' },
+  { id: 'hsl-shift', label: 'HSL Shift' },
+  { id: 'complementary', label: 'Complement' },
+  { id: 'contrast-max', label: 'Contrast-max' },
+  { id: 'vivid', label: 'Vivid' },
+  { id: 'average', label: 'Average' },
+  { id: 'oklab', label: 'OKLab K-Means' },
+];
+const ALGORITHM_IDS = ALGORITHMS.map((a) => a.id);
+
 // Fixed preview size (square) used throughout
 const PREVIEW_SIZE = 300;
 
-// Keep track of temp files we downloaded so we can clean them up when a new image is loaded
-const tempFiles: string[] = [];
 // Keep track of fetched app metadata to display links
 let currentMetadata: any = null;
+// Colors suggested for the currently loaded image (null until an image is analyzed)
+let currentColors: { primary: string; light: string; dark: string } | null = null;
+// What the analyzer suggested for the current image, so manual edits can be reset
+let suggestedColors: { primary: string; light: string; dark: string } | null = null;
+// Pixbuf the current image was analyzed from (used for the icon visibility check)
+let currentAnalysisPixbuf: any = null;
+// Simulated copies of the analysis pixbuf and of the painted preview pixbuf, so
+// redraws and color edits don't redo the color-vision-deficiency simulation
+let cvdAnalysisCache: { source: any; mode: string; pixbuf: any } | null = null;
+let cvdPreviewCache: { key: string; pixbuf: any } | null = null;
 
 // Helper: force a widget to request a square content area of `size` and avoid
 // expansion. Uses available APIs across GTK versions.
@@ -740,12 +1394,8 @@ function scheduleRescaleForCurrentImage() {
               : aw;
             if (aw && ah) {
               const size = Math.max(32, Math.min(aw, ah) - padding * 2);
-              const tmpDirLocal = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-              const isTmp =
-                typeof currentImagePath === 'string' &&
-                currentImagePath.indexOf(tmpDirLocal) === 0 &&
-                currentImagePath.indexOf('branding-picker-') >= 0;
-              const pb = getPreviewPixbuf(currentImagePath as string, size, !isTmp);
+              const isDownloaded = isDownloadedImage(currentImagePath);
+              const pb = getPreviewPixbuf(currentImagePath as string, size, !isDownloaded);
               if (pb && imageLight) {
                 imageLight.set_from_pixbuf(pb);
               }
@@ -766,12 +1416,8 @@ function scheduleRescaleForCurrentImage() {
               : aw;
             if (aw && ah) {
               const size = Math.max(32, Math.min(aw, ah) - padding * 2);
-              const tmpDirLocal = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-              const isTmp =
-                typeof currentImagePath === 'string' &&
-                currentImagePath.indexOf(tmpDirLocal) === 0 &&
-                currentImagePath.indexOf('branding-picker-') >= 0;
-              const pb = getPreviewPixbuf(currentImagePath as string, size, !isTmp);
+              const isDownloaded = isDownloadedImage(currentImagePath);
+              const pb = getPreviewPixbuf(currentImagePath as string, size, !isDownloaded);
               if (pb && imageDark) {
                 imageDark.set_from_pixbuf(pb);
               }
@@ -811,12 +1457,8 @@ function scheduleRescaleForCurrentImage() {
             : aw;
           if (aw && ah) {
             const size = Math.max(32, Math.min(aw, ah) - padding * 2);
-            const tmpDirLocal2 = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-            const isTmp2 =
-              typeof currentImagePath === 'string' &&
-              currentImagePath.indexOf(tmpDirLocal2) === 0 &&
-              currentImagePath.indexOf('branding-picker-') >= 0;
-            const pb = getPreviewPixbuf(currentImagePath as string, size, !isTmp2);
+            const isDownloaded2 = isDownloadedImage(currentImagePath);
+            const pb = getPreviewPixbuf(currentImagePath as string, size, !isDownloaded2);
             if (pb && imageLight) {
               imageLight.set_from_pixbuf(pb);
             }
@@ -835,12 +1477,8 @@ function scheduleRescaleForCurrentImage() {
             : aw;
           if (aw && ah) {
             const size = Math.max(32, Math.min(aw, ah) - padding * 2);
-            const tmpDirLocal = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-            const isTmp =
-              typeof currentImagePath === 'string' &&
-              currentImagePath.indexOf(tmpDirLocal) === 0 &&
-              currentImagePath.indexOf('branding-picker-') >= 0;
-            const pb = getPreviewPixbuf(currentImagePath as string, size, !isTmp);
+            const isDownloaded = isDownloadedImage(currentImagePath);
+            const pb = getPreviewPixbuf(currentImagePath as string, size, !isDownloaded);
             if (pb && imageDark) {
               imageDark.set_from_pixbuf(pb);
             }
@@ -989,9 +1627,244 @@ function getPreviewPixbuf(path: string, size: number, allowUpscale: boolean) {
   }
 }
 
-// Helper: try to copy text to the clipboard using multiple strategies,
-// or show a dialog with the text if all strategies fail.
-function showSnippetDialog(snippet: string, parentWindow?: any) {
+// Helper: load an image at the size used for color analysis. Throws if the
+// image cannot be read.
+function loadAnalysisPixbuf(path: string) {
+  // For SVGs, request a larger rasterization size so sampling yields good colors
+  const isSvg = typeof path === 'string' && path.match(/\.svgz?$/i);
+  const analysisSize = isSvg ? 512 : 256;
+  return GdkPixbuf.Pixbuf.new_from_file_at_scale(path, analysisSize, analysisSize, true);
+}
+
+// Helper: build the AppStream <branding> snippet for a light/dark color pair
+function brandingSnippet(lightColor: string, darkColor: string) {
+  return `<branding>\n  <color type=\"primary\" scheme_preference=\"light\">${lightColor}</color>\n  <color type=\"primary\" scheme_preference=\"dark\">${darkColor}</color>\n</branding>`;
+}
+
+// Helper: describe one color for machine-readable output: hex, HSL (hue in
+// degrees, saturation/lightness in [0,1]) and contrast against white/black text
+function describeColor(hex: string) {
+  const round = (v: number, digits: number) => Number(v.toFixed(digits));
+  const [r, g, b] = hexToRgb(hex);
+  const [h, s, l] = rgbToHsl(r, g, b);
+  return {
+    hex,
+    hsl: { h: round(h * 360, 1), s: round(s, 3), l: round(l, 3) },
+    contrast: {
+      white: round(contrastRatio(hex, '#ffffff'), 2),
+      black: round(contrastRatio(hex, '#000000'), 2),
+    },
+  };
+}
+
+// Icon pixels count as blending into the banner when both their luminance contrast
+// and their OKLab distance to the background fall below these thresholds
+const VISIBILITY_MIN_CONTRAST = 1.5;
+const VISIBILITY_MIN_DELTA_E = 0.1;
+// Warn once more than this share of the outline (or of the whole icon) blends in
+const VISIBILITY_WARN_SHARE = 0.4;
+
+// Helper: how well the icon stays visible on a banner of `bgHex`. Opaque pixels
+// are composited onto the background and compared against it; edge pixels (opaque
+// pixels next to transparency or on the image border) form the silhouette and
+// weigh more in the 0-100 score than the fill.
+function iconVisibility(pixbuf: any, bgHex: string) {
+  const width = pixbuf.get_width();
+  const height = pixbuf.get_height();
+  const rowstride = pixbuf.get_rowstride();
+  const n_channels = pixbuf.get_n_channels();
+  const pixels = pixbuf.get_pixels();
+  const hasAlpha = n_channels === 4;
+  const [br, bg, bb] = hexToRgb(bgHex);
+  const bgLum = relativeLuminanceRgb(br, bg, bb);
+  const bgLab = rgbToOklab(br, bg, bb);
+  const alphaAt = (x: number, y: number) =>
+    hasAlpha ? pixels[y * rowstride + x * n_channels + 3] & 0xff : 255;
+  const isOpaque = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && alphaAt(x, y) >= 128;
+
+  let opaque = 0,
+    blended = 0,
+    edges = 0,
+    edgesBlended = 0;
+  const step = Math.max(1, Math.floor(Math.min(width, height) / 128));
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (!isOpaque(x, y)) {
+        continue;
+      }
+      const idx = y * rowstride + x * n_channels;
+      const a = alphaAt(x, y) / 255;
+      const r = (pixels[idx] & 0xff) * a + br * (1 - a);
+      const g = (pixels[idx + 1] & 0xff) * a + bg * (1 - a);
+      const b = (pixels[idx + 2] & 0xff) * a + bb * (1 - a);
+      const lum = relativeLuminanceRgb(r, g, b);
+      const contrast = (Math.max(lum, bgLum) + 0.05) / (Math.min(lum, bgLum) + 0.05);
+      let blends = false;
+      if (contrast < VISIBILITY_MIN_CONTRAST) {
+        const lab = rgbToOklab(r, g, b);
+        const dL = lab[0] - bgLab[0];
+        const da = lab[1] - bgLab[1];
+        const db = lab[2] - bgLab[2];
+        blends = Math.sqrt(dL * dL + da * da + db * db) < VISIBILITY_MIN_DELTA_E;
+      }
+      const isEdge =
+        !isOpaque(x - 1, y) || !isOpaque(x + 1, y) || !isOpaque(x, y - 1) || !isOpaque(x, y + 1);
+      opaque++;
+      if (blends) {
+        blended++;
+      }
+      if (isEdge) {
+        edges++;
+        if (blends) {
+          edgesBlended++;
+        }
+      }
+    }
+  }
+
+  if (opaque === 0) {
+    return { score: 0, edgeBlend: 1, fillBlend: 1, warning: 'the icon has no opaque pixels' };
+  }
+  const fillBlend = blended / opaque;
+  const edgeBlend = edges > 0 ? edgesBlended / edges : fillBlend;
+  const score = Math.round(100 * (1 - (0.7 * edgeBlend + 0.3 * fillBlend)));
+  let warning: string | null = null;
+  if (edgeBlend > VISIBILITY_WARN_SHARE) {
+    warning = `${Math.round(edgeBlend * 100)}% of the icon outline blends into ${bgHex}`;
+  } else if (fillBlend > VISIBILITY_WARN_SHARE) {
+    warning = `${Math.round(fillBlend * 100)}% of the icon blends into ${bgHex}`;
+  }
+  return {
+    score,
+    edgeBlend: Number(edgeBlend.toFixed(3)),
+    fillBlend: Number(fillBlend.toFixed(3)),
+    warning,
+  };
+}
+
+// Helper: one-line summary of an iconVisibility result for labels and text output
+function formatVisibility(visibility: any) {
+  const text = `visibility ${visibility.score}/100`;
+  return visibility.warning ? `${text} ⚠ ${visibility.warning}` : text;
+}
+
+// Color-vision-deficiency simulations offered for the previews. The matrices act
+// on linear RGB (Machado et al. 2009 at full severity; achromatopsia keeps only
+// the relative luminance).
+const CVD_MODES: Array<{ id: string; label: string; matrix: number[][] | null }> = [
+  { id: 'none', label: 'No simulation', matrix: null },
+  {
+    id: 'protanopia',
+    label: 'Protanopia',
+    matrix: [
+      [0.152286, 1.052583, -0.204868],
+      [0.114503, 0.786281, 0.099216],
+      [-0.003882, -0.048116, 1.051998],
+    ],
+  },
+  {
+    id: 'deuteranopia',
+    label: 'Deuteranopia',
+    matrix: [
+      [0.367322, 0.860646, -0.227968],
+      [0.280085, 0.672501, 0.047413],
+      [-0.01182, 0.04294, 0.968881],
+    ],
+  },
+  {
+    id: 'tritanopia',
+    label: 'Tritanopia',
+    matrix: [
+      [1.255528, -0.076749, -0.178779],
+      [-0.078411, 0.930809, 0.147602],
+      [0.004733, 0.691367, 0.3039],
+    ],
+  },
+  {
+    id: 'achromatopsia',
+    label: 'Achromatopsia',
+    matrix: [
+      [0.2126, 0.7152, 0.0722],
+      [0.2126, 0.7152, 0.0722],
+      [0.2126, 0.7152, 0.0722],
+    ],
+  },
+];
+
+// Simulation applied to the previews ('none' shows the real colors)
+let cvdSimulation = 'none';
+
+// Helper: how an sRGB color (0-255 channels) looks under the CVD simulation `mode`
+function simulateCvdRgb(r: number, g: number, b: number, mode: string) {
+  const entry = CVD_MODES.find((m) => m.id === mode);
+  if (!entry || !entry.matrix) {
+    return [r, g, b];
+  }
+  const lin = [srgbChannelToLinear(r), srgbChannelToLinear(g), srgbChannelToLinear(b)];
+  return entry.matrix.map((row) => {
+    const v = row[0] * lin[0] + row[1] * lin[1] + row[2] * lin[2];
+    return Math.round(Math.min(255, Math.max(0, linearChannelToSrgb(Math.min(1, Math.max(0, v))))));
+  });
+}
+
+// Helper: hex color as seen under the CVD simulation `mode`
+function simulateCvdHex(hex: string, mode: string) {
+  const [r, g, b] = hexToRgb(hex);
+  const simulated = simulateCvdRgb(r, g, b, mode);
+  return safeRgbToHex(simulated[0], simulated[1], simulated[2]);
+}
+
+// Helper: copy of `pixbuf` as seen under the CVD simulation `mode` (alpha is kept).
+// Results are memoized per color since icons use few distinct colors.
+function simulateCvdPixbuf(pixbuf: any, mode: string) {
+  const memo = new Map<number, number[]>();
+  return mapPixbufPixels(pixbuf, (x, y, rgba) => {
+    if (rgba[3] === 0) {
+      return rgba;
+    }
+    const key = (rgba[0] << 16) | (rgba[1] << 8) | rgba[2];
+    let rgb = memo.get(key);
+    if (!rgb) {
+      rgb = simulateCvdRgb(rgba[0], rgba[1], rgba[2], mode);
+      memo.set(key, rgb);
+    }
+    return [rgb[0], rgb[1], rgb[2], rgba[3]];
+  });
+}
+
+// Helper: structured analysis result for one image (used for JSON output). When
+// the analyzed pixbuf is given, icon visibility on both banners is included.
+function buildAnalysisResult(path: string, algorithm: string, colors: any, pixbuf?: any) {
+  return {
+    input: path,
+    algorithm,
+    primary: describeColor(colors.primary),
+    light: describeColor(colors.light),
+    dark: describeColor(colors.dark),
+    targetContrast: derivationMode === 'contrast' ? targetContrast : null,
+    backgroundShare:
+      typeof colors.backgroundShare === 'number' ? Number(colors.backgroundShare.toFixed(3)) : null,
+    visibility: pixbuf
+      ? {
+          light: iconVisibility(pixbuf, colors.light),
+          dark: iconVisibility(pixbuf, colors.dark),
+        }
+      : null,
+    candidates: (colors.candidates || []).map((c: any) => ({
+      primary: c.primary,
+      light: c.light,
+      dark: c.dark,
+      score: Number(c.score.toFixed(3)),
+      reason: c.reason,
+      suggested: c.suggested,
+    })),
+  };
+}
+
+// Helper: try to copy text to the clipboard using multiple strategies,
+// or show a dialog with the text if all strategies fail.
+function showSnippetDialog(snippet: string, parentWindow?: any) {
   try {
     const dialog = new Gtk.Dialog({
       transient_for: parentWindow || null,
@@ -1234,41 +2107,3341 @@ function copyToClipboard(snippet: string, parentWindow?: any) {
         }
       } catch (e) {}
     }
-  } catch (e) {}
-
-  // 4) Fallback: show dialog with snippet
-  showSnippetDialog(snippet, parentWindow);
-  return false;
+  } catch (e) {}
+
+  // 4) Fallback: show dialog with snippet
+  showSnippetDialog(snippet, parentWindow);
+  return false;
+}
+
+// Helper: show a simple modal message dialog
+function showMessageDialog(parentWindow: any, messageType: any, text: string) {
+  try {
+    const d = new Gtk.MessageDialog({
+      transient_for: parentWindow || null,
+      modal: true,
+      message_type: messageType,
+      buttons: Gtk.ButtonsType.OK,
+      text,
+    });
+    try {
+      d.connect('response', () => {
+        try {
+          d.destroy();
+        } catch (e) {}
+      });
+    } catch (e) {}
+    try {
+      d.show();
+    } catch (e) {
+      try {
+        d.present();
+      } catch (e) {}
+    }
+  } catch (e) {
+    log(text);
+  }
+}
+
+// Helper: call `onConfirmed` right away when none of `paths` exists, otherwise
+// only after the user agreed to replace the existing files
+function confirmOverwrite(parentWindow: any, paths: string[], onConfirmed: () => void) {
+  const existing = paths.filter((p) => GLib.file_test(p, GLib.FileTest.EXISTS));
+  if (existing.length === 0) {
+    onConfirmed();
+    return;
+  }
+  try {
+    const d = new Gtk.MessageDialog({
+      transient_for: parentWindow || null,
+      modal: true,
+      message_type: Gtk.MessageType.QUESTION,
+      buttons: Gtk.ButtonsType.OK_CANCEL,
+      text: `Replace ${existing.map((p) => GLib.path_get_basename(p)).join(', ')}?`,
+      secondary_text: `${
+        existing.length === 1 ? 'This file already exists' : 'These files already exist'
+      } in ${GLib.path_get_dirname(existing[0])}.`,
+    });
+    d.connect('response', (dialog: any, response: any) => {
+      try {
+        d.destroy();
+      } catch (e) {}
+      if (response === Gtk.ResponseType.OK) {
+        onConfirmed();
+      }
+    });
+    try {
+      d.show();
+    } catch (e) {
+      try {
+        d.present();
+      } catch (e) {}
+    }
+  } catch (e) {
+    log('Failed to ask before overwriting:', e);
+  }
+}
+
+// Helper: let the user pick a file and call `onChosen` with its path.
+// `patterns` are glob patterns for the file filter (e.g. '*.xml').
+function chooseFile(
+  parentWindow: any,
+  title: string,
+  filterName: string,
+  patterns: string[],
+  onChosen: (path: string) => void,
+) {
+  try {
+    const chooser = new Gtk.FileChooserNative({
+      title,
+      action: Gtk.FileChooserAction.OPEN,
+      transient_for: parentWindow || null,
+    });
+    if (patterns && patterns.length > 0) {
+      const filter = new Gtk.FileFilter();
+      filter.set_name(filterName);
+      for (let i = 0; i < patterns.length; i++) {
+        try {
+          filter.add_pattern(patterns[i]);
+        } catch (e) {}
+      }
+      chooser.add_filter(filter);
+    }
+    chooser.connect('response', (native: any, response: any) => {
+      try {
+        if (response === Gtk.ResponseType.ACCEPT) {
+          const file = chooser.get_file();
+          const path = file ? file.get_path() : null;
+          if (path) {
+            onChosen(path);
+          }
+        }
+      } catch (e) {
+        log('File chooser callback failed:', e);
+      }
+    });
+    chooser.show();
+  } catch (e) {
+    console.log('File chooser failed: ', e);
+  }
+}
+
+// Helper: read a UTF-8 text file. Throws if the file cannot be read. With
+// `keepBom`, a leading byte order mark stays in the text (as U+FEFF), so writing
+// the text back keeps it; with `strict`, invalid UTF-8 throws (see bytesToText).
+function readTextFile(path: string, keepBom = false, strict = false) {
+  const [ok, contents] = GLib.file_get_contents(path);
+  if (!ok) {
+    throw new Error(`Could not read ${path}`);
+  }
+  return bytesToText(contents, keepBom, strict);
+}
+
+// Helper: decode a GLib.Bytes, byte array or string as UTF-8 text. A byte order
+// mark is dropped unless `keepBom` is set. Invalid sequences become U+FFFD, or
+// throw with `strict` (for text that will be written back).
+function bytesToText(data: any, keepBom = false, strict = false) {
+  if (data === null || data === undefined) {
+    return '';
+  }
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (typeof data.get_data === 'function') {
+    data = data.get_data() || new Uint8Array(0);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: strict, ignoreBOM: keepBom }).decode(data);
+  } catch (e) {
+    if (strict) {
+      throw new Error('not valid UTF-8 text');
+    }
+    return imports.byteArray.toString(data);
+  }
+}
+
+// Seconds before a Flathub request is given up
+const FLATHUB_TIMEOUT_SECONDS = 20;
+// libsoup 3 session shared by all requests (created on first use)
+let httpSession: any = null;
+// Offline mode: Flathub metadata and icons are only served from the cache
+let offlineMode = false;
+// Subdirectories of the cache directory, one per kind of cached download
+const CACHE_KINDS = ['appstream', 'icons'];
+// Cached files not used for this many days are removed
+const CACHE_MAX_AGE_DAYS = 30;
+// Each kind of cache is trimmed to this size, least recently used files first
+const CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+// Flathub endpoints used unless configured otherwise. Each can be overridden by a
+// command-line option, an environment variable or a preference (in that order).
+const DEFAULT_FLATHUB_API_BASE = 'https://flathub.org/api/v2';
+const DEFAULT_FLATHUB_ICON_HOST = 'https://flathub.org';
+const FLATHUB_API_ENV = 'BRANDING_PICKER_FLATHUB_API';
+const FLATHUB_ICON_HOST_ENV = 'BRANDING_PICKER_ICON_HOST';
+// Values of --flathub-api / --icon-host, when given
+let flathubApiOverride: string | null = null;
+let flathubIconHostOverride: string | null = null;
+
+// Helper: path of the preferences file (a GLib key file)
+function preferencesPath() {
+  return GLib.build_filenamev([GLib.get_user_config_dir(), 'branding-picker', 'preferences.ini']);
+}
+
+// Helper: a string preference, or null when it is unset
+function readPreference(group: string, key: string) {
+  try {
+    const keyFile = new GLib.KeyFile();
+    keyFile.load_from_file(preferencesPath(), GLib.KeyFileFlags.NONE);
+    const value = keyFile.get_string(group, key);
+    return value && value.trim() ? value.trim() : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+// Helper: store string preferences of one group; empty values remove the key.
+// Throws if the file cannot be written.
+function writePreferences(group: string, values: { [key: string]: string }) {
+  const path = preferencesPath();
+  const keyFile = new GLib.KeyFile();
+  try {
+    keyFile.load_from_file(path, GLib.KeyFileFlags.KEEP_COMMENTS);
+  } catch (e) {}
+  Object.keys(values).forEach((key) => {
+    const value = (values[key] || '').trim();
+    if (value) {
+      keyFile.set_string(group, key, value);
+    } else {
+      try {
+        keyFile.remove_key(group, key);
+      } catch (e) {}
+    }
+  });
+  GLib.mkdir_with_parents(GLib.path_get_dirname(path), 0o755);
+  keyFile.save_to_file(path);
+}
+
+// Helper: the first of the option override, environment variable, preference and
+// default that is set, without trailing slashes
+function configuredUrl(
+  override: string | null,
+  envName: string,
+  prefKey: string,
+  fallback: string,
+) {
+  const value = override || GLib.getenv(envName) || readPreference('flathub', prefKey) || fallback;
+  return value.trim().replace(/\/+$/, '');
+}
+
+// Base URL of the Flathub API (v2), e.g. a local mirror or a file:// fixture tree
+function flathubApiBase() {
+  return configuredUrl(flathubApiOverride, FLATHUB_API_ENV, 'api-base', DEFAULT_FLATHUB_API_BASE);
+}
+
+// Host that icon URLs from the metadata are resolved against
+function flathubIconHost() {
+  return configuredUrl(
+    flathubIconHostOverride,
+    FLATHUB_ICON_HOST_ENV,
+    'icon-host',
+    DEFAULT_FLATHUB_ICON_HOST,
+  );
+}
+
+// Helper: absolute URL of an icon listed in Flathub metadata. Relative URLs are
+// resolved against the icon host; with a custom icon host, absolute URLs on
+// flathub.org (or a subdomain such as dl.flathub.org) are redirected to it as well,
+// keeping their path.
+function resolveIconUrl(url: string) {
+  const host = flathubIconHost();
+  if (url.indexOf('://') < 0) {
+    return host + (url.charAt(0) === '/' ? '' : '/') + url;
+  }
+  if (host !== DEFAULT_FLATHUB_ICON_HOST) {
+    const m = url.match(/^https?:\/\/(?:[\w-]+\.)*flathub\.org(\/.*)?$/i);
+    if (m) {
+      return host + (m[1] || '');
+    }
+  }
+  return url;
+}
+
+// Helper: the primary branding colors published in Flathub metadata as
+// `{ light, dark }` (either may be null), or null when there are none. A color
+// without scheme_preference applies to the schemes that have no color of their own.
+function flathubBranding(meta: any) {
+  if (!meta || !Array.isArray(meta.branding)) {
+    return null;
+  }
+  const result: { light: string | null; dark: string | null } = { light: null, dark: null };
+  let anyScheme: string | null = null;
+  meta.branding.forEach((entry: any) => {
+    if (!entry || (entry.type && entry.type !== 'primary')) {
+      return;
+    }
+    const hex = normalizeHex(String(entry.value || ''));
+    if (!hex) {
+      return;
+    }
+    if (entry.scheme_preference === 'light' || entry.scheme_preference === 'dark') {
+      result[entry.scheme_preference as 'light' | 'dark'] =
+        result[entry.scheme_preference as 'light' | 'dark'] || hex;
+    } else if (!anyScheme) {
+      anyScheme = hex;
+    }
+  });
+  result.light = result.light || anyScheme;
+  result.dark = result.dark || anyScheme;
+  return result.light || result.dark ? result : null;
+}
+
+// One downloadable icon listed in Flathub metadata. `width`/`height` are 0 when
+// unknown; `scalable` is set for SVG icons.
+interface FlathubIcon {
+  url: string;
+  type: string | null;
+  width: number;
+  height: number;
+  scale: number;
+  scalable: boolean;
+}
+
+// Helper: the downloadable icons of Flathub metadata (`icons` entries with a URL,
+// plus the top-level `icon`), best first: scalable icons, then the largest in
+// pixels (size × scale). Sizes missing from an entry are read from its URL
+// (".../128x128/..." or ".../128x128@2/...").
+function flathubIcons(meta: any): FlathubIcon[] {
+  if (!meta) {
+    return [];
+  }
+  const entries: any[] = Array.isArray(meta.icons) ? meta.icons.slice() : [];
+  if (typeof meta.icon === 'string' && meta.icon) {
+    entries.push({ url: meta.icon });
+  }
+  const icons: FlathubIcon[] = [];
+  entries.forEach((entry) => {
+    if (!entry || typeof entry.url !== 'string' || !entry.url) {
+      return;
+    }
+    if (entry.type === 'stock' || entry.type === 'local') {
+      return;
+    }
+    if (icons.some((icon) => icon.url === entry.url)) {
+      return;
+    }
+    const fromUrl = entry.url.match(/\/(\d+)x(\d+)(?:@(\d+))?\//);
+    const number = (value: any, fallback: number) => {
+      const n = parseInt(value, 10);
+      return n > 0 ? n : fallback;
+    };
+    icons.push({
+      url: entry.url,
+      type: entry.type || null,
+      width: number(entry.width, fromUrl ? number(fromUrl[1], 0) : 0),
+      height: number(entry.height, fromUrl ? number(fromUrl[2], 0) : 0),
+      scale: number(entry.scale, fromUrl && fromUrl[3] ? number(fromUrl[3], 1) : 1),
+      scalable: /\.svgz?(?:[?#].*)?$/i.test(entry.url),
+    });
+  });
+  const pixels = (icon: FlathubIcon) => Math.max(icon.width, icon.height) * icon.scale;
+  return icons.sort((a, b) => {
+    if (a.scalable !== b.scalable) {
+      return a.scalable ? -1 : 1;
+    }
+    return pixels(b) - pixels(a);
+  });
+}
+
+// Helper: short description of a Flathub icon, e.g. "128 × 128" or "64 × 64 @2x"
+function flathubIconLabel(icon: FlathubIcon) {
+  if (icon.scalable) {
+    return 'scalable';
+  }
+  if (!icon.width || !icon.height) {
+    return 'unknown size';
+  }
+  return `${icon.width} × ${icon.height}` + (icon.scale > 1 ? ` @${icon.scale}x` : '');
+}
+
+// Helper: the libsoup 3 module, or null when it is unavailable (requests then use curl)
+function getSoup() {
+  try {
+    const Soup = imports.gi.Soup;
+    if (Soup && Soup.Session && typeof Soup.Session.prototype.send_and_read_async === 'function') {
+      return Soup;
+    }
+  } catch (e) {}
+  return null;
+}
+
+// Status and validators of an HTTP response (null when unknown, e.g. for file:// URLs)
+interface HttpResponseInfo {
+  status: number;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// Helper: status and headers (lower-case names) of the last response in a raw header
+// dump such as `curl -D` writes; earlier blocks belong to redirects
+function parseHttpHeaders(text: string) {
+  const blocks = text.split(/\r?\n\r?\n/).filter((b) => /^HTTP\//.test(b.trim()));
+  const headers: { [name: string]: string } = {};
+  if (!blocks.length) {
+    return { status: 0, headers };
+  }
+  const lines = blocks[blocks.length - 1].trim().split(/\r?\n/);
+  const m = lines[0].match(/^HTTP\/[\d.]+\s+(\d+)/);
+  for (let i = 1; i < lines.length; i++) {
+    const sep = lines[i].indexOf(':');
+    if (sep > 0) {
+      headers[lines[i].slice(0, sep).trim().toLowerCase()] = lines[i].slice(sep + 1).trim();
+    }
+  }
+  return { status: m ? parseInt(m[1], 10) : 0, headers };
+}
+
+// Optional parts of an HTTP request: method (default GET), extra headers (e.g.
+// If-None-Match) and a text body with its content type
+interface HttpRequest {
+  method?: string;
+  headers?: { [name: string]: string };
+  body?: string;
+  contentType?: string;
+}
+
+// Helper: send an HTTP request for `url` without blocking the main loop, via
+// libsoup 3 or else curl; file:// URLs (local mirrors, test fixtures) are read from
+// disk whatever the method and body.
+// `callback(error, bytes, contentType, info)` runs exactly once; `error` is null on
+// success and 'cancelled' when `cancellable` was cancelled. A 304 Not Modified
+// answer is a success without bytes. Requests running longer than
+// FLATHUB_TIMEOUT_SECONDS are cancelled and reported as timed out.
+function httpRequestAsync(
+  url: string,
+  request: HttpRequest | null,
+  cancellable: any,
+  callback: (
+    error: string | null,
+    bytes: any,
+    contentType: string | null,
+    info: HttpResponseInfo | null,
+  ) => void,
+) {
+  cancellable = cancellable || new Gio.Cancellable();
+  const method = (request && request.method) || 'GET';
+  const requestHeaders = (request && request.headers) || {};
+  const headerNames = Object.keys(requestHeaders);
+  const body = request && request.body !== undefined ? request.body : null;
+  const bodyType = (request && request.contentType) || 'application/octet-stream';
+  let timedOut = false;
+  let done = false;
+  const timeoutId = GLib.timeout_add_seconds(GLib.PRIORITY_DEFAULT, FLATHUB_TIMEOUT_SECONDS, () => {
+    timedOut = true;
+    cancellable.cancel();
+    return GLib.SOURCE_REMOVE;
+  });
+  const finish = (
+    error: string | null,
+    bytes: any,
+    contentType: string | null,
+    info?: HttpResponseInfo,
+  ) => {
+    if (done) {
+      return;
+    }
+    done = true;
+    if (!timedOut) {
+      GLib.source_remove(timeoutId);
+    }
+    if (error && cancellable.is_cancelled()) {
+      error = timedOut ? `timed out after ${FLATHUB_TIMEOUT_SECONDS} seconds` : 'cancelled';
+    }
+    callback(error, bytes, contentType, info || null);
+  };
+
+  if (/^file:\/\//i.test(url)) {
+    try {
+      const file = Gio.File.new_for_uri(url);
+      file.load_bytes_async(cancellable, (f: any, res: any) => {
+        try {
+          const [bytes] = file.load_bytes_finish(res);
+          finish(null, bytes, null);
+        } catch (e) {
+          finish(String((e && (e as any).message) || e), null, null);
+        }
+      });
+    } catch (e) {
+      finish(String((e && (e as any).message) || e), null, null);
+    }
+    return;
+  }
+
+  const Soup = getSoup();
+  if (Soup) {
+    try {
+      if (!httpSession) {
+        httpSession = new Soup.Session();
+      }
+      const msg = Soup.Message.new(method, url);
+      if (!msg) {
+        finish(`invalid URL ${url}`, null, null);
+        return;
+      }
+      headerNames.forEach((name) => {
+        msg.get_request_headers().append(name, requestHeaders[name]);
+      });
+      if (body !== null) {
+        msg.set_request_body_from_bytes(bodyType, new GLib.Bytes(new TextEncoder().encode(body)));
+      }
+      httpSession.send_and_read_async(
+        msg,
+        GLib.PRIORITY_DEFAULT,
+        cancellable,
+        (session: any, res: any) => {
+          let bytes: any = null;
+          try {
+            bytes = httpSession.send_and_read_finish(res);
+          } catch (e) {
+            finish(String((e && (e as any).message) || e), null, null);
+            return;
+          }
+          const status = msg.get_status();
+          const responseHeaders = msg.get_response_headers();
+          const info: HttpResponseInfo = {
+            status,
+            etag: responseHeaders.get_one('ETag'),
+            lastModified: responseHeaders.get_one('Last-Modified'),
+          };
+          if (status === 304) {
+            finish(null, null, null, info);
+            return;
+          }
+          if (status !== 200) {
+            finish(`HTTP ${status} ${msg.get_reason_phrase() || ''}`.trim(), null, null);
+            return;
+          }
+          let contentType: string | null = null;
+          try {
+            contentType = responseHeaders.get_content_type()[0];
+          } catch (e) {}
+          finish(null, bytes, contentType, info);
+        },
+      );
+      return;
+    } catch (e) {
+      log('libsoup request failed, falling back to curl:', e);
+    }
+  }
+
+  // Fallback: curl; stdout is read as bytes so binary downloads stay intact and the
+  // response headers are dumped to a temporary file
+  let headersPath: string | null = null;
+  const readResponseHeaders = () => {
+    let text = '';
+    try {
+      text = readTextFile(headersPath as string);
+    } catch (e) {}
+    try {
+      GLib.unlink(headersPath as string);
+    } catch (e) {}
+    return parseHttpHeaders(text);
+  };
+  try {
+    const [fd, path] = GLib.file_open_tmp('branding-picker-headers-XXXXXX');
+    GLib.close(fd);
+    headersPath = path;
+    const argv = ['curl', '-fsSL', '-D', path, '-X', method];
+    headerNames.forEach((name) => {
+      argv.push('-H', `${name}: ${requestHeaders[name]}`);
+    });
+    if (body !== null) {
+      argv.push('-H', `Content-Type: ${bodyType}`, '--data-binary', body);
+    }
+    argv.push(url);
+    const proc = new Gio.Subprocess({
+      argv,
+      flags: Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_PIPE,
+    });
+    proc.init(cancellable);
+    proc.communicate_async(null, cancellable, (p: any, res: any) => {
+      let stdout: any = null;
+      let stderr: any = null;
+      try {
+        [, stdout, stderr] = proc.communicate_finish(res);
+      } catch (e) {
+        try {
+          proc.force_exit();
+        } catch (e) {}
+        readResponseHeaders();
+        finish(String((e && (e as any).message) || e), null, null);
+        return;
+      }
+      const response = readResponseHeaders();
+      if (!proc.get_successful()) {
+        const message = bytesToText(stderr).trim();
+        finish(message || `curl exited with status ${proc.get_exit_status()}`, null, null);
+        return;
+      }
+      const info: HttpResponseInfo = {
+        status: response.status || 200,
+        etag: response.headers['etag'] || null,
+        lastModified: response.headers['last-modified'] || null,
+      };
+      if (info.status === 304) {
+        finish(null, null, null, info);
+        return;
+      }
+      finish(null, stdout, (response.headers['content-type'] || '').split(';')[0] || null, info);
+    });
+  } catch (e) {
+    if (headersPath) {
+      readResponseHeaders();
+    }
+    finish(`cannot run curl: ${(e && (e as any).message) || e}`, null, null);
+  }
+}
+
+// Helper: GET `url` with `requestHeaders` (e.g. If-None-Match); see httpRequestAsync
+function httpGetAsync(
+  url: string,
+  requestHeaders: { [name: string]: string } | null,
+  cancellable: any,
+  callback: (
+    error: string | null,
+    bytes: any,
+    contentType: string | null,
+    info: HttpResponseInfo | null,
+  ) => void,
+) {
+  httpRequestAsync(url, { headers: requestHeaders || {} }, cancellable, callback);
+}
+
+// Helper: the cache directory (below the XDG cache dir), or its subdirectory for `kind`
+function cacheDir(kind?: string) {
+  const parts = [GLib.get_user_cache_dir(), 'branding-picker'];
+  if (kind) {
+    parts.push(kind);
+  }
+  return GLib.build_filenamev(parts);
+}
+
+// Helper: true for images our Flathub downloader stored in the cache; their previews
+// are not upscaled
+function isDownloadedImage(path: any) {
+  return typeof path === 'string' && path.indexOf(cacheDir() + '/') === 0;
+}
+
+// A cached download: the URL it came from, its validators and the data file's path
+interface CacheEntry {
+  url: string;
+  path: string;
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// Helper: the cache entry of `key` if it holds `url` and its data file still exists.
+// Entries are listed in an index.ini key file per kind, one group per key.
+function readCacheEntry(kind: string, key: string, url: string): CacheEntry | null {
+  try {
+    const keyFile = new GLib.KeyFile();
+    keyFile.load_from_file(
+      GLib.build_filenamev([cacheDir(kind), 'index.ini']),
+      GLib.KeyFileFlags.NONE,
+    );
+    if (keyFile.get_string(key, 'url') !== url) {
+      return null;
+    }
+    const path = GLib.build_filenamev([cacheDir(kind), keyFile.get_string(key, 'file')]);
+    if (!GLib.file_test(path, GLib.FileTest.IS_REGULAR)) {
+      return null;
+    }
+    const optional = (name: string) => {
+      try {
+        return keyFile.get_string(key, name) || null;
+      } catch (e) {
+        return null;
+      }
+    };
+    return { url, path, etag: optional('etag'), lastModified: optional('last-modified') };
+  } catch (e) {
+    return null;
+  }
+}
+
+// Helper: record `entry` as the cache entry of `key`. Throws if the index cannot be written.
+function writeCacheEntry(kind: string, key: string, entry: CacheEntry) {
+  const indexPath = GLib.build_filenamev([cacheDir(kind), 'index.ini']);
+  const keyFile = new GLib.KeyFile();
+  try {
+    keyFile.load_from_file(indexPath, GLib.KeyFileFlags.NONE);
+  } catch (e) {}
+  keyFile.set_string(key, 'url', entry.url);
+  keyFile.set_string(key, 'file', GLib.path_get_basename(entry.path));
+  const optional: Array<[string, string | null]> = [
+    ['etag', entry.etag],
+    ['last-modified', entry.lastModified],
+  ];
+  optional.forEach(([name, value]) => {
+    if (value) {
+      keyFile.set_string(key, name, value);
+    } else {
+      try {
+        keyFile.remove_key(key, name);
+      } catch (e) {}
+    }
+  });
+  keyFile.save_to_file(indexPath);
+}
+
+// Helper: mark a cached file as used now, so pruneCache keeps it longest
+function touchCacheFile(path: string) {
+  try {
+    Gio.File.new_for_path(path).set_attribute_uint64(
+      'time::modified',
+      Math.floor(Date.now() / 1000),
+      Gio.FileQueryInfoFlags.NONE,
+      null,
+    );
+  } catch (e) {}
+}
+
+// Helper: the files in the cache directory of `kind` with their size and
+// modification time (seconds), newest first
+function listCacheFiles(kind: string) {
+  const files: Array<{ name: string; size: number; modified: number }> = [];
+  let enumerator: any = null;
+  try {
+    enumerator = Gio.File.new_for_path(cacheDir(kind)).enumerate_children(
+      'standard::name,standard::size,time::modified',
+      Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+      null,
+    );
+  } catch (e) {
+    return files;
+  }
+  let info: any = null;
+  while ((info = enumerator.next_file(null))) {
+    files.push({
+      name: info.get_name(),
+      size: info.get_size(),
+      modified: info.get_attribute_uint64('time::modified'),
+    });
+  }
+  try {
+    enumerator.close(null);
+  } catch (e) {}
+  return files.sort((a, b) => b.modified - a.modified);
+}
+
+// Helper: delete the cached files of `kind` for which `shouldRemove(file, total)`
+// returns true (`total` is the size of the newest files up to this one, minus the
+// removed ones) and drop their index entries. The image currently shown is always
+// kept. Returns the number of files removed.
+function removeCacheFiles(
+  kind: string,
+  shouldRemove: (file: { name: string; size: number; modified: number }, total: number) => boolean,
+) {
+  const removed: string[] = [];
+  let total = 0;
+  listCacheFiles(kind).forEach((file) => {
+    const path = GLib.build_filenamev([cacheDir(kind), file.name]);
+    if (file.name === 'index.ini' || path === currentImagePath) {
+      return;
+    }
+    total += file.size;
+    if (!shouldRemove(file, total)) {
+      return;
+    }
+    try {
+      GLib.unlink(path);
+      removed.push(file.name);
+      total -= file.size;
+    } catch (e) {}
+  });
+  if (removed.length) {
+    const indexPath = GLib.build_filenamev([cacheDir(kind), 'index.ini']);
+    try {
+      const keyFile = new GLib.KeyFile();
+      keyFile.load_from_file(indexPath, GLib.KeyFileFlags.NONE);
+      keyFile.get_groups()[0].forEach((group: string) => {
+        try {
+          if (removed.indexOf(keyFile.get_string(group, 'file')) >= 0) {
+            keyFile.remove_group(group);
+          }
+        } catch (e) {}
+      });
+      keyFile.save_to_file(indexPath);
+    } catch (e) {}
+  }
+  return removed.length;
+}
+
+// Helper: remove cached files of `kind` unused for CACHE_MAX_AGE_DAYS, then the
+// least recently used ones until the rest fits in CACHE_MAX_BYTES
+function pruneCache(kind: string) {
+  const cutoff = Date.now() / 1000 - CACHE_MAX_AGE_DAYS * 24 * 60 * 60;
+  return removeCacheFiles(kind, (file, total) => file.modified < cutoff || total > CACHE_MAX_BYTES);
+}
+
+// Helper: delete everything in the cache except the image currently shown; returns
+// the number of files removed
+function clearCache() {
+  let removed = 0;
+  CACHE_KINDS.forEach((kind) => {
+    removed += removeCacheFiles(kind, () => true);
+  });
+  return removed;
+}
+
+// Helper: GET `url` through the cache entry `key` of `kind` and pass the path of the
+// cached file to `callback(error, path, source)`. A cached copy is revalidated with
+// its ETag/Last-Modified; when the request fails it is used as is. In offline mode
+// only the cache is consulted. `validate(bytes, contentType)` checks fresh data and
+// returns an error or the file extension to store it with. `source` is 'network',
+// 'revalidated', 'stale' (request failed), 'offline' or 'local': file:// URLs
+// (mirrors, fixtures) are validated and used in place, without caching.
+function cachedGetAsync(
+  kind: string,
+  key: string,
+  url: string,
+  cancellable: any,
+  validate: (bytes: any, contentType: string | null) => { error?: string; extension?: string },
+  callback: (error: string | null, path: string | null, source: string | null) => void,
+) {
+  if (/^file:\/\//i.test(url)) {
+    httpGetAsync(url, null, cancellable, (error, bytes, contentType) => {
+      const checked = error ? { error } : validate(bytes, contentType);
+      if (checked.error) {
+        callback(checked.error, null, null);
+        return;
+      }
+      callback(null, Gio.File.new_for_uri(url).get_path(), 'local');
+    });
+    return;
+  }
+  const entry = readCacheEntry(kind, key, url);
+  if (offlineMode) {
+    if (entry) {
+      touchCacheFile(entry.path);
+      callback(null, entry.path, 'offline');
+    } else {
+      callback(`${url} is not in the cache (offline mode)`, null, null);
+    }
+    return;
+  }
+  const requestHeaders: { [name: string]: string } = {};
+  if (entry && entry.etag) {
+    requestHeaders['If-None-Match'] = entry.etag;
+  }
+  if (entry && entry.lastModified) {
+    requestHeaders['If-Modified-Since'] = entry.lastModified;
+  }
+  httpGetAsync(url, requestHeaders, cancellable, (error, bytes, contentType, info) => {
+    if (error) {
+      if (entry && error !== 'cancelled') {
+        log(`Using cached ${url}:`, error);
+        touchCacheFile(entry.path);
+        callback(null, entry.path, 'stale');
+      } else {
+        callback(error, null, null);
+      }
+      return;
+    }
+    if (entry && info && info.status === 304) {
+      touchCacheFile(entry.path);
+      callback(null, entry.path, 'revalidated');
+      return;
+    }
+    const checked = validate(bytes, contentType);
+    if (checked.error) {
+      callback(checked.error, null, null);
+      return;
+    }
+    const path = GLib.build_filenamev([
+      cacheDir(kind),
+      checked.extension ? `${key}.${checked.extension}` : key,
+    ]);
+    try {
+      GLib.mkdir_with_parents(cacheDir(kind), 0o755);
+    } catch (e) {}
+    const file = Gio.File.new_for_path(path);
+    file.replace_contents_bytes_async(
+      bytes,
+      null,
+      false,
+      Gio.FileCreateFlags.REPLACE_DESTINATION,
+      cancellable,
+      (f: any, res: any) => {
+        try {
+          file.replace_contents_finish(res);
+          writeCacheEntry(kind, key, {
+            url,
+            path,
+            etag: info ? info.etag : null,
+            lastModified: info ? info.lastModified : null,
+          });
+        } catch (e) {
+          if (cancellable && cancellable.is_cancelled()) {
+            callback('cancelled', null, null);
+            return;
+          }
+          callback(`cannot write ${path}: ${(e && (e as any).message) || e}`, null, null);
+          return;
+        }
+        // A file of another type left over from an earlier version of this entry
+        if (entry && entry.path !== path) {
+          try {
+            GLib.unlink(entry.path);
+          } catch (e) {}
+        }
+        pruneCache(kind);
+        callback(null, path, 'network');
+      },
+    );
+  });
+}
+
+// Helper: extract appId from a Flathub URL or treat the input as an appId
+function extractAppIdFromInput(input: string) {
+  if (!input) {
+    return null;
+  }
+  input = input.trim();
+  // If the user pasted a full URL, use the last path segment without trailing slashes.
+  // The language segment is optional: current Flathub links are /apps/<appId>.
+  const m = input.match(/https?:\/\/[^\/]*flathub\.org\/(?:[^\/]*\/)?apps\/(.+)$/i);
+  if (m && m[1]) {
+    return m[1].replace(/\/+$/, '');
+  }
+  // Also accept short URLs like /en/apps/com.usebottles.bottles
+  const m2 = input.match(/flathub\.org\/.+\/apps\/(.+)$/i);
+  if (m2 && m2[1]) {
+    return m2[1].replace(/\/+$/, '');
+  }
+  // Otherwise assume the input is the appId itself
+  return input || null;
+}
+
+// Helper: fetch the Flathub AppStream JSON of `appId` asynchronously (through the
+// cache); `callback(error, meta)` follows httpGetAsync's error convention
+function fetchAppstreamAsync(
+  appId: string,
+  cancellable: any,
+  callback: (error: string | null, meta: any) => void,
+) {
+  const url = `${flathubApiBase()}/appstream/${encodeURIComponent(appId)}`;
+  const validate = (bytes: any) => {
+    try {
+      JSON.parse(bytesToText(bytes));
+    } catch (e) {
+      return { error: 'invalid JSON in response' };
+    }
+    return { extension: 'json' };
+  };
+  cachedGetAsync(
+    'appstream',
+    appId.replace(/[^\w.-]/g, '_'),
+    url,
+    cancellable,
+    validate,
+    (error, path) => {
+      if (error) {
+        callback(error, null);
+        return;
+      }
+      let meta: any = null;
+      try {
+        meta = JSON.parse(readTextFile(path as string));
+      } catch (e) {
+        callback(`cannot read cached metadata ${path}`, null);
+        return;
+      }
+      callback(null, meta);
+    },
+  );
+}
+
+// Results shown by the app search popover
+const SEARCH_MAX_RESULTS = 10;
+// Delay after the last keystroke before searching (milliseconds)
+const SEARCH_DEBOUNCE_MS = 300;
+
+// One app found by searchFlathubAsync
+interface FlathubSearchHit {
+  appId: string;
+  name: string;
+  developer: string | null;
+  icon: string | null;
+}
+
+// Helper: the apps listed in a Flathub search response (`{ hits: [...] }`), skipping
+// entries without an app ID
+function parseSearchHits(response: any): FlathubSearchHit[] {
+  const hits = response && Array.isArray(response.hits) ? response.hits : [];
+  const result: FlathubSearchHit[] = [];
+  hits.forEach((hit: any) => {
+    if (!hit || typeof hit.app_id !== 'string' || !hit.app_id) {
+      return;
+    }
+    result.push({
+      appId: hit.app_id,
+      name: hit.name || hit.app_id,
+      developer: hit.developer_name || null,
+      icon: hit.icon || null,
+    });
+  });
+  return result;
+}
+
+// Helper: search Flathub apps by name (POST /search of the API) without blocking;
+// `callback(error, hits)` follows httpRequestAsync's error convention. Results are
+// not cached, so searching is unavailable in offline mode.
+function searchFlathubAsync(
+  query: string,
+  cancellable: any,
+  callback: (error: string | null, hits: FlathubSearchHit[]) => void,
+) {
+  if (offlineMode) {
+    callback('search is not available in offline mode', []);
+    return;
+  }
+  const request: HttpRequest = {
+    method: 'POST',
+    body: JSON.stringify({ query, filters: [], hits_per_page: SEARCH_MAX_RESULTS, page: 1 }),
+    contentType: 'application/json',
+  };
+  httpRequestAsync(`${flathubApiBase()}/search`, request, cancellable, (error, bytes) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+    let response: any = null;
+    try {
+      response = JSON.parse(bytesToText(bytes));
+    } catch (e) {
+      callback('invalid JSON in response', []);
+      return;
+    }
+    callback(null, parseSearchHits(response).slice(0, SEARCH_MAX_RESULTS));
+  });
+}
+
+// Helper: list the apps of a Flathub developer (GET /collection/developer/NAME of
+// the API, following its pages) without blocking; `callback(error, hits)` follows
+// httpRequestAsync's error convention. Unavailable in offline mode, like search.
+// Later pages are requested as `?page=N`, which file:// mirrors cannot answer (the
+// query is not part of the file path), so there only the first page is read.
+function fetchDeveloperAppsAsync(
+  developer: string,
+  cancellable: any,
+  callback: (error: string | null, hits: FlathubSearchHit[]) => void,
+) {
+  if (offlineMode) {
+    callback('developer lookups are not available in offline mode', []);
+    return;
+  }
+  const url = `${flathubApiBase()}/collection/developer/${encodeURIComponent(developer)}`;
+  const hits: FlathubSearchHit[] = [];
+  const fetchPage = (page: number) => {
+    httpRequestAsync(
+      page === 1 ? url : `${url}?page=${page}`,
+      null,
+      cancellable,
+      (error, bytes) => {
+        if (error) {
+          callback(error, []);
+          return;
+        }
+        let response: any = null;
+        try {
+          response = JSON.parse(bytesToText(bytes));
+        } catch (e) {
+          callback('invalid JSON in response', []);
+          return;
+        }
+        hits.push(...parseSearchHits(response));
+        if (
+          typeof response.totalPages === 'number' &&
+          response.totalPages > page &&
+          !/^file:/i.test(url)
+        ) {
+          fetchPage(page + 1);
+        } else {
+          callback(null, hits);
+        }
+      },
+    );
+  };
+  fetchPage(1);
+}
+
+// Helper: the first `length` bytes of gzip-compressed `data` once decompressed, or
+// null if it is not valid gzip
+function gunzipHead(data: Uint8Array, length: number) {
+  try {
+    const stream = new Gio.ConverterInputStream({
+      base_stream: Gio.MemoryInputStream.new_from_bytes(new GLib.Bytes(data)),
+      converter: new Gio.ZlibDecompressor({ format: Gio.ZlibCompressorFormat.GZIP }),
+    });
+    const head = new Uint8Array(length);
+    let size = 0;
+    while (size < length) {
+      const chunk: Uint8Array = stream.read_bytes(length - size, null).get_data();
+      if (!chunk || chunk.length === 0) {
+        break;
+      }
+      head.set(chunk, size);
+      size += chunk.length;
+    }
+    stream.close(null);
+    return head.subarray(0, size);
+  } catch (e) {
+    return null;
+  }
+}
+
+// Helper: identify downloaded data by its leading bytes. Returns the file
+// extension of a supported image ('png', 'jpg', 'svg', 'svgz'), 'html' for web
+// pages (typically error pages), or null. Gzip data only counts as 'svgz' when
+// it decompresses to SVG markup.
+function detectImageType(data: Uint8Array) {
+  const startsWith = (magic: number[]) =>
+    data.length >= magic.length && magic.every((b, i) => data[i] === b);
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return 'png';
+  }
+  if (startsWith([0xff, 0xd8, 0xff])) {
+    return 'jpg';
+  }
+  const textHead = (bytes: Uint8Array) =>
+    bytesToText(bytes.subarray(0, 1024))
+      .replace(/^\uFEFF/, '')
+      .trimStart()
+      .toLowerCase();
+  const isSvg = (head: string) =>
+    /^(<\?xml[\s\S]*?|<!--[\s\S]*?-->\s*)*(<!doctype svg[^>]*>\s*)?<svg[\s>]/.test(head);
+  if (startsWith([0x1f, 0x8b])) {
+    const inflated = gunzipHead(data, 1024);
+    return inflated && isSvg(textHead(inflated)) ? 'svgz' : null;
+  }
+  const head = textHead(data);
+  if (/^<!doctype html|^<html/.test(head)) {
+    return 'html';
+  }
+  if (isSvg(head)) {
+    return 'svg';
+  }
+  return null;
+}
+
+// Helper: download the icon at `url` (resolved with resolveIconUrl) into the cache
+// without blocking; `callback(error, path)` gets the cached file's path. The raw
+// bytes are stored unchanged, and responses that are not a PNG/JPEG/SVG image
+// (e.g. HTML error pages) are rejected.
+function downloadIconAsync(
+  url: string,
+  cancellable: any,
+  callback: (error: string | null, path: string | null) => void,
+) {
+  url = resolveIconUrl(url);
+  const validate = (bytes: any, contentType: string | null) => {
+    const data: Uint8Array = (bytes && bytes.get_data()) || new Uint8Array(0);
+    const type = detectImageType(data);
+    const mime = (contentType || '').toLowerCase();
+    if (type === 'html' || mime.indexOf('text/html') === 0) {
+      return { error: `the server returned an HTML page instead of an image (${url})` };
+    }
+    if (mime && mime.indexOf('image/') !== 0 && mime !== 'application/octet-stream') {
+      return { error: `unexpected Content-Type ${mime} for ${url}` };
+    }
+    if (!type) {
+      return { error: `the downloaded data is not a PNG, JPEG or SVG image (${url})` };
+    }
+    return { extension: type };
+  };
+  const key = GLib.compute_checksum_for_string(GLib.ChecksumType.SHA256, url, -1);
+  cachedGetAsync('icons', key, url, cancellable, validate, (error, path) => callback(error, path));
+}
+
+// Helper: download the first of `icons` (through the cache) that can be decoded,
+// falling back to the next one when a download or decoding fails.
+// `callback(error, iconPath, icon, pixbuf)` gets the analysis pixbuf of the icon
+// used, or the last error when none worked.
+function downloadFirstIconAsync(
+  icons: FlathubIcon[],
+  cancellable: any,
+  callback: (
+    error: string | null,
+    iconPath: string | null,
+    icon: FlathubIcon | null,
+    pixbuf: any,
+  ) => void,
+) {
+  const attempt = (index: number, lastError: string) => {
+    const icon = icons[index];
+    if (!icon) {
+      callback(lastError, null, null, null);
+      return;
+    }
+    downloadIconAsync(icon.url, cancellable, (dlError, path) => {
+      if (dlError === 'cancelled' || (cancellable && cancellable.is_cancelled())) {
+        callback('cancelled', null, null, null);
+        return;
+      }
+      if (dlError || !path) {
+        const error = `cannot download icon ${resolveIconUrl(icon.url)}: ${dlError || 'no data'}`;
+        log(error);
+        attempt(index + 1, error);
+        return;
+      }
+      let pixbuf: any = null;
+      try {
+        pixbuf = loadAnalysisPixbuf(path);
+      } catch (e) {
+        pixbuf = null;
+      }
+      if (!pixbuf) {
+        const error = `cannot read icon ${resolveIconUrl(icon.url)}`;
+        log(error);
+        attempt(index + 1, error);
+        return;
+      }
+      callback(null, path, icon, pixbuf);
+    });
+  };
+  attempt(0, 'no icon URL in the metadata');
+}
+
+// Helper: fetch the metadata of `appId` and download its best icon that can be
+// decoded (both through the cache); `callback(error, meta, iconPath, icon, pixbuf)`
+// gets the metadata whenever it could be fetched, even if no icon could
+function fetchAppIconAsync(
+  appId: string,
+  cancellable: any,
+  callback: (
+    error: string | null,
+    meta: any,
+    iconPath: string | null,
+    icon: FlathubIcon | null,
+    pixbuf: any,
+  ) => void,
+) {
+  fetchAppstreamAsync(appId, cancellable, (error, meta) => {
+    if (error || !meta) {
+      callback(`cannot fetch metadata: ${error || 'empty response'}`, null, null, null, null);
+      return;
+    }
+    downloadFirstIconAsync(flathubIcons(meta), cancellable, (iconError, path, icon, pixbuf) =>
+      callback(iconError, meta, path, icon, pixbuf),
+    );
+  });
+}
+
+// Helper: ranges [start, end) of XML comments so matches inside them can be ignored
+function xmlCommentRanges(xml: string) {
+  const ranges: Array<[number, number]> = [];
+  const re = /<!--[\s\S]*?-->/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml))) {
+    ranges.push([m.index, m.index + m[0].length]);
+  }
+  return ranges;
+}
+
+// Helper: find all <branding> elements (outside comments) within [from, to)
+function findBrandingBlocks(xml: string, from: number, to: number) {
+  const comments = xmlCommentRanges(xml);
+  const blocks: Array<{ start: number; end: number; text: string }> = [];
+  const re = /<branding\b[^>]*\/>|<branding\b[^>]*>[\s\S]*?<\/branding\s*>/g;
+  re.lastIndex = from;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml)) && m.index < to) {
+    const start = m.index;
+    const inComment = comments.some((r) => start >= r[0] && start < r[1]);
+    if (!inComment) {
+      blocks.push({ start, end: start + m[0].length, text: m[0] });
+    }
+  }
+  return blocks;
+}
+
+// Helper: whitespace between the start of the line containing `index` and `index`,
+// or null if other text precedes it on that line.
+function lineIndentAt(text: string, index: number) {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1;
+  const prefix = text.substring(lineStart, index);
+  return /^[ \t]*$/.test(prefix) ? prefix : null;
+}
+
+// Insert or replace the <branding> element of the <component> in a metainfo
+// document. Everything outside the touched element is kept byte-for-byte; extra
+// <branding> elements (a common copy/paste mistake) are removed. Returns the new
+// text, or an error message if the document has no <component>.
+function applyBrandingToMetainfo(xml: string, lightColor: string, darkColor: string) {
+  const open = /<component\b[^>]*>/.exec(xml);
+  const closeIndex = xml.lastIndexOf('</component>');
+  if (!open || closeIndex < open.index) {
+    return { text: xml, error: 'No <component> element found' };
+  }
+  const newline = xml.indexOf('\r\n') >= 0 ? '\r\n' : '\n';
+  const componentIndent = lineIndentAt(xml, open.index) || '';
+  // Detect the indentation used for children of <component>, defaulting to two spaces
+  let childIndent = componentIndent + '  ';
+  const firstChild = /\n([ \t]*)</.exec(xml.substring(open.index + open[0].length, closeIndex));
+  if (firstChild && firstChild[1].length > componentIndent.length) {
+    childIndent = firstChild[1];
+  }
+  const unit = childIndent.substring(componentIndent.length) || '  ';
+
+  const buildBlock = (indent: string, colorIndent: string) =>
+    [
+      '<branding>',
+      `${colorIndent}<color type="primary" scheme_preference="light">${lightColor}</color>`,
+      `${colorIndent}<color type="primary" scheme_preference="dark">${darkColor}</color>`,
+      `${indent}</branding>`,
+    ].join(newline);
+
+  const blocks = findBrandingBlocks(xml, open.index + open[0].length, closeIndex);
+  if (blocks.length === 0) {
+    const closeIndent = lineIndentAt(xml, closeIndex);
+    if (closeIndent !== null) {
+      const indent = closeIndent + unit;
+      const lineStart = closeIndex - closeIndent.length;
+      const block = indent + buildBlock(indent, indent + unit) + newline;
+      return { text: xml.substring(0, lineStart) + block + xml.substring(lineStart), error: null };
+    }
+    const block = newline + childIndent + buildBlock(childIndent, childIndent + unit) + newline;
+    return { text: xml.substring(0, closeIndex) + block + xml.substring(closeIndex), error: null };
+  }
+
+  // Replace the first block in place, keeping the indentation of its color lines
+  const first = blocks[0];
+  const indent = lineIndentAt(xml, first.start) || childIndent;
+  const colorLine = /\n([ \t]*)<color\b/.exec(first.text);
+  const colorIndent = colorLine ? colorLine[1] : indent + unit;
+  let result = '';
+  let pos = 0;
+  for (let i = 0; i < blocks.length; i++) {
+    const b = blocks[i];
+    if (i === 0) {
+      result += xml.substring(pos, b.start) + buildBlock(indent, colorIndent);
+      pos = b.end;
+      continue;
+    }
+    // Drop duplicates together with their line when nothing else is on it
+    let start = b.start;
+    let end = b.end;
+    const blockIndent = lineIndentAt(xml, b.start);
+    const rest = xml.substring(b.end).match(/^[ \t]*(\r?\n|$)/);
+    if (blockIndent !== null && rest) {
+      start = b.start - blockIndent.length;
+      end = b.end + rest[0].length;
+    }
+    result += xml.substring(pos, start);
+    pos = end;
+  }
+  result += xml.substring(pos);
+  return { text: result, error: null };
+}
+
+// Helper: line-based diff of two texts in unified format (single hunk covering
+// everything between the first and last changed line, with `context` lines around it)
+function formatLineDiff(oldText: string, newText: string, context: number = 3) {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  if (start === a.length && start === b.length) {
+    return '';
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  // Longest common subsequence over the changed middle section
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const lcs: number[][] = [];
+  for (let i = 0; i <= midA.length; i++) {
+    lcs.push(new Array(midB.length + 1).fill(0));
+  }
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const body: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      body.push(' ' + midA[i]);
+      i++;
+      j++;
+    } else if (i < midA.length && (j >= midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      body.push('-' + midA[i]);
+      i++;
+    } else {
+      body.push('+' + midB[j]);
+      j++;
+    }
+  }
+  const from = Math.max(0, start - context);
+  const toA = Math.min(a.length, endA + context);
+  const toB = Math.min(b.length, endB + context);
+  const lines: string[] = [];
+  lines.push(`@@ -${from + 1},${toA - from} +${from + 1},${toB - from} @@`);
+  for (let k = from; k < start; k++) {
+    lines.push(' ' + a[k]);
+  }
+  for (let k = 0; k < body.length; k++) {
+    lines.push(body[k]);
+  }
+  for (let k = endA; k < toA; k++) {
+    lines.push(' ' + a[k]);
+  }
+  return lines.join('\n');
+}
+
+// Apply-to-metainfo flow: pick a metainfo/appdata file, preview the diff of the
+// inserted/replaced <branding> element and write it back when confirmed.
+function applyColorsToMetainfoFile(parentWindow: any) {
+  if (!currentColors) {
+    return;
+  }
+  const lightColor = currentColors.light;
+  const darkColor = currentColors.dark;
+  chooseFile(
+    parentWindow,
+    'Apply branding to metainfo',
+    'AppStream metainfo',
+    ['*.metainfo.xml', '*.appdata.xml', '*.metainfo.xml.in', '*.appdata.xml.in', '*.xml'],
+    (path: string) => {
+      let original = '';
+      try {
+        // Keep a byte order mark, so the file is written back with it, and refuse
+        // invalid UTF-8 rather than writing it back with replacement characters
+        original = readTextFile(path, true, true);
+      } catch (e) {
+        showMessageDialog(
+          parentWindow,
+          Gtk.MessageType.ERROR,
+          `Failed to read ${path}: ${(e as any).message}`,
+        );
+        return;
+      }
+      const patched = applyBrandingToMetainfo(original, lightColor, darkColor);
+      if (patched.error) {
+        showMessageDialog(parentWindow, Gtk.MessageType.ERROR, `${path}: ${patched.error}`);
+        return;
+      }
+      if (patched.text === original) {
+        showMessageDialog(
+          parentWindow,
+          Gtk.MessageType.INFO,
+          `${path} already contains this branding`,
+        );
+        return;
+      }
+      showMetainfoDiffDialog(path, original, patched.text, parentWindow);
+    },
+  );
+}
+
+// Dialog showing the pending change to a metainfo file with Cancel/Apply buttons
+function showMetainfoDiffDialog(path: string, oldText: string, newText: string, parentWindow: any) {
+  try {
+    const dialog = new Gtk.Dialog({
+      transient_for: parentWindow || null,
+      modal: true,
+      title: `Apply branding to ${GLib.path_get_basename(path)}`,
+    });
+    try {
+      dialog.add_buttons('Cancel', Gtk.ResponseType.CANCEL, 'Apply', Gtk.ResponseType.APPLY);
+    } catch (e) {}
+
+    const tv = new Gtk.TextView({ editable: false, cursor_visible: false, monospace: true });
+    try {
+      tv.get_buffer().set_text(formatLineDiff(oldText, newText), -1);
+    } catch (e) {}
+    const sw = new Gtk.ScrolledWindow({ min_content_width: 640, min_content_height: 280 });
+    sw.set_child(tv);
+    try {
+      dialog.get_content_area().append(sw);
+    } catch (e) {
+      try {
+        (dialog as any).set_child(sw);
+      } catch (e) {}
+    }
+
+    dialog.connect('response', (d: any, response: any) => {
+      try {
+        if (response === Gtk.ResponseType.APPLY) {
+          try {
+            GLib.file_set_contents(path, newText);
+          } catch (e) {
+            showMessageDialog(parentWindow, Gtk.MessageType.ERROR, `Failed to write ${path}`);
+          }
+        }
+      } catch (e) {}
+      try {
+        dialog.destroy();
+      } catch (e) {}
+    });
+    try {
+      dialog.show();
+    } catch (e) {
+      try {
+        dialog.present();
+      } catch (e) {}
+    }
+  } catch (e) {
+    log('Failed to show metainfo diff:', e);
+  }
+}
+
+// Helper: parse the attributes of an XML start tag body into a map
+function parseXmlAttributes(text: string) {
+  const attrs: { [name: string]: string } = {};
+  const re = /([A-Za-z_][\w:.-]*)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    attrs[m[1]] = m[2] !== undefined ? m[2] : m[3];
+  }
+  return attrs;
+}
+
+// Helper: extract the <color> entries of all <branding> elements in a metainfo document
+function parseBrandingColors(xml: string) {
+  const open = /<component\b[^>]*>/.exec(xml);
+  const closeIndex = xml.lastIndexOf('</component>');
+  const from = open ? open.index + open[0].length : 0;
+  const to = open && closeIndex >= from ? closeIndex : xml.length;
+  const blocks = findBrandingBlocks(xml, from, to);
+  const colors: Array<{ type: string | null; scheme: string | null; value: string }> = [];
+  for (let i = 0; i < blocks.length; i++) {
+    const re = /<color\b([^>]*)>([\s\S]*?)<\/color\s*>/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(blocks[i].text))) {
+      const attrs = parseXmlAttributes(m[1]);
+      colors.push({
+        type: attrs.type !== undefined ? attrs.type : null,
+        scheme: attrs.scheme_preference !== undefined ? attrs.scheme_preference : null,
+        value: m[2].trim(),
+      });
+    }
+  }
+  return { hasComponent: !!open, blockCount: blocks.length, colors };
+}
+
+// Helper: the text colors GNOME Software draws on a branding color for `scheme`;
+// a color without a (valid) scheme_preference is shown with both
+function bannerTextColors(scheme: string | null) {
+  if (scheme === 'light') {
+    return [BANNER_TEXT_ON_LIGHT];
+  }
+  if (scheme === 'dark') {
+    return [BANNER_TEXT_ON_DARK];
+  }
+  return [BANNER_TEXT_ON_LIGHT, BANNER_TEXT_ON_DARK];
+}
+
+// Helper: warning for `hex` if its contrast against the banner text of `scheme` is
+// below `minContrast`, or null. `label` names the color in the message.
+function bannerContrastWarning(
+  hex: string,
+  scheme: string | null,
+  label: string,
+  minContrast: number,
+) {
+  const low = bannerTextColors(scheme).filter((text) => contrastRatio(hex, text) < minContrast);
+  if (low.length === 0) {
+    return null;
+  }
+  const ratios = low
+    .map((text) => {
+      const name = text === BANNER_TEXT_ON_DARK ? 'W' : 'B';
+      return `${name}:${contrastRatio(hex, text).toFixed(2)}`;
+    })
+    .join(', ');
+  return `${hex} (${label}) has low contrast with the banner text: ${ratios} (minimum ${minContrast})`;
+}
+
+// Check the <branding> block of a metainfo document. Reports missing schemes,
+// duplicate entries, invalid hex values and colors whose contrast against the
+// banner text of their scheme is below `minContrast`.
+function lintBranding(xml: string, minContrast: number) {
+  const issues: Array<{ severity: 'error' | 'warning'; message: string }> = [];
+  const parsed = parseBrandingColors(xml);
+  const colors = parsed.colors.map((c) => {
+    const valid = /^#[0-9a-fA-F]{6}$/.test(c.value);
+    return {
+      type: c.type,
+      scheme: c.scheme,
+      value: c.value,
+      valid,
+      contrast: valid
+        ? { white: contrastRatio(c.value, '#ffffff'), black: contrastRatio(c.value, '#000000') }
+        : null,
+    };
+  });
+  if (!parsed.hasComponent) {
+    issues.push({ severity: 'error', message: 'No <component> element found' });
+  }
+  if (parsed.blockCount === 0) {
+    issues.push({ severity: 'error', message: 'No <branding> element found' });
+    return { issues, colors };
+  }
+  if (parsed.blockCount > 1) {
+    issues.push({
+      severity: 'error',
+      message: `${parsed.blockCount} <branding> elements found, expected one`,
+    });
+  }
+
+  const seen: { [key: string]: number } = {};
+  for (let i = 0; i < colors.length; i++) {
+    const c = colors[i];
+    const scheme = c.scheme || 'any';
+    if (c.type !== 'primary') {
+      issues.push({
+        severity: 'warning',
+        message: `Color ${c.value} has unsupported type "${c.type === null ? '' : c.type}"`,
+      });
+    }
+    if (c.scheme !== null && c.scheme !== 'light' && c.scheme !== 'dark') {
+      issues.push({
+        severity: 'error',
+        message: `Color ${c.value} has invalid scheme_preference "${c.scheme}"`,
+      });
+    }
+    const key = `${c.type}/${scheme}`;
+    seen[key] = (seen[key] || 0) + 1;
+    if (seen[key] === 2) {
+      issues.push({
+        severity: 'error',
+        message: `Duplicate ${c.type} color for the ${scheme} scheme`,
+      });
+    }
+    if (!c.valid) {
+      issues.push({ severity: 'error', message: `Invalid hex color "${c.value}"` });
+    } else {
+      const warning = bannerContrastWarning(c.value, c.scheme, scheme, minContrast);
+      if (warning) {
+        issues.push({ severity: 'warning', message: warning });
+      }
+    }
+  }
+  // A color without scheme_preference applies to both schemes
+  const hasScheme = (s: string) =>
+    colors.some((c) => c.type === 'primary' && (c.scheme === s || c.scheme === null));
+  if (!hasScheme('light')) {
+    issues.push({ severity: 'error', message: 'No primary color for the light scheme' });
+  }
+  if (!hasScheme('dark')) {
+    issues.push({ severity: 'error', message: 'No primary color for the dark scheme' });
+  }
+  return { issues, colors };
+}
+
+// Helper: human-readable lint report. `suggestion` (optional) holds the colors
+// the picker suggests for the app's icon.
+function formatLintReport(path: string, lint: any, suggestion?: any, algorithm?: string) {
+  const lines: string[] = [path];
+  const fmtContrast = (hex: string) =>
+    `W:${contrastRatio(hex, '#ffffff').toFixed(2)}, B:${contrastRatio(hex, '#000000').toFixed(2)}`;
+  for (let i = 0; i < lint.colors.length; i++) {
+    const c = lint.colors[i];
+    const scheme = c.scheme || 'any';
+    lines.push(`  ${scheme}: ${c.value}${c.valid ? ` (${fmtContrast(c.value)})` : ''}`);
+  }
+  if (lint.issues.length === 0) {
+    lines.push('  OK: no issues found');
+  }
+  for (let i = 0; i < lint.issues.length; i++) {
+    lines.push(`  ${lint.issues[i].severity}: ${lint.issues[i].message}`);
+  }
+  if (suggestion) {
+    lines.push(`  Suggested${algorithm ? ` (${algorithm})` : ''}:`);
+    lines.push(`    light: ${suggestion.light} (${fmtContrast(suggestion.light)})`);
+    lines.push(`    dark: ${suggestion.dark} (${fmtContrast(suggestion.dark)})`);
+  }
+  return lines.join('\n');
+}
+
+// Minimum contrast used by the "Lint metainfo…" dialog (adjustable there)
+let lintMinContrast = DEFAULT_MIN_CONTRAST;
+
+// Lint flow: pick a metainfo file and show the report in a dialog. The colors
+// suggested for the currently loaded image (if any) are shown alongside.
+function lintMetainfoFile(parentWindow: any) {
+  chooseFile(
+    parentWindow,
+    'Lint metainfo branding',
+    'AppStream metainfo',
+    ['*.metainfo.xml', '*.appdata.xml', '*.metainfo.xml.in', '*.appdata.xml.in', '*.xml'],
+    (path: string) => {
+      let xml = '';
+      try {
+        xml = readTextFile(path);
+      } catch (e) {
+        showMessageDialog(parentWindow, Gtk.MessageType.ERROR, `Failed to read ${path}`);
+        return;
+      }
+      const suggestion = currentColors;
+      const algorithm = currentAlgorithm;
+      try {
+        const dialog = new Gtk.Dialog({
+          transient_for: parentWindow || null,
+          modal: true,
+          title: `Branding lint: ${GLib.path_get_basename(path)}`,
+        });
+        try {
+          dialog.add_buttons('Close', Gtk.ResponseType.CLOSE);
+        } catch (e) {}
+        const content = dialog.get_content_area();
+
+        const thresholdBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+        thresholdBox.append(new Gtk.Label({ label: 'Minimum contrast:' }));
+        const spin = Gtk.SpinButton.new_with_range(1, 21, 0.5);
+        spin.set_digits(1);
+        spin.set_value(lintMinContrast);
+        thresholdBox.append(spin);
+        content.append(thresholdBox);
+
+        const tv = new Gtk.TextView({ editable: false, cursor_visible: false, monospace: true });
+        const sw = new Gtk.ScrolledWindow({ min_content_width: 600, min_content_height: 240 });
+        sw.set_child(tv);
+        content.append(sw);
+
+        const refresh = () => {
+          try {
+            const lint = lintBranding(xml, lintMinContrast);
+            tv.get_buffer().set_text(formatLintReport(path, lint, suggestion, algorithm), -1);
+          } catch (e) {}
+        };
+        spin.connect('value-changed', () => {
+          lintMinContrast = spin.get_value();
+          refresh();
+        });
+        refresh();
+
+        dialog.connect('response', () => {
+          try {
+            dialog.destroy();
+          } catch (e) {}
+        });
+        dialog.present();
+      } catch (e) {
+        log('Failed to show lint report:', e);
+      }
+    },
+  );
+}
+
+// Helper: let the user pick a folder and call `onChosen` with its path
+function chooseFolder(parentWindow: any, title: string, onChosen: (path: string) => void) {
+  try {
+    const chooser = new Gtk.FileChooserNative({
+      title,
+      action: Gtk.FileChooserAction.SELECT_FOLDER,
+      transient_for: parentWindow || null,
+    });
+    chooser.connect('response', (native: any, response: any) => {
+      try {
+        if (response === Gtk.ResponseType.ACCEPT) {
+          const file = chooser.get_file();
+          const path = file ? file.get_path() : null;
+          if (path) {
+            onChosen(path);
+          }
+        }
+      } catch (e) {
+        log('Folder chooser callback failed:', e);
+      }
+    });
+    chooser.show();
+  } catch (e) {
+    console.log('Folder chooser failed: ', e);
+  }
+}
+
+// Helper: let the user pick a destination file and call `onChosen` with its path
+function chooseSaveFile(
+  parentWindow: any,
+  title: string,
+  suggestedName: string,
+  onChosen: (path: string) => void,
+) {
+  try {
+    const chooser = new Gtk.FileChooserNative({
+      title,
+      action: Gtk.FileChooserAction.SAVE,
+      transient_for: parentWindow || null,
+    });
+    try {
+      chooser.set_current_name(suggestedName);
+    } catch (e) {}
+    chooser.connect('response', (native: any, response: any) => {
+      try {
+        if (response === Gtk.ResponseType.ACCEPT) {
+          const file = chooser.get_file();
+          const path = file ? file.get_path() : null;
+          if (path) {
+            onChosen(path);
+          }
+        }
+      } catch (e) {
+        log('Save chooser callback failed:', e);
+      }
+    });
+    chooser.show();
+  } catch (e) {
+    console.log('Save chooser failed: ', e);
+  }
+}
+
+// Helper: small widget filled with a solid color
+function createColorSwatch(hex: string, size: number) {
+  const area = new Gtk.DrawingArea();
+  area.set_size_request(size, size);
+  area.set_draw_func((a: any, cr: any, width: number, height: number) => {
+    try {
+      const [r, g, b] = hexToRgb(hex);
+      cr.setSourceRGB(r / 255, g / 255, b / 255);
+      cr.rectangle(0, 0, width, height);
+      cr.fill();
+    } catch (e) {}
+  });
+  try {
+    area.set_tooltip_text(hex);
+  } catch (e) {}
+  return area;
+}
+
+// Image types picked up when analyzing a whole directory
+const BATCH_IMAGE_PATTERN = /\.(png|svgz?)$/i;
+
+// Helper: recursively collect PNG/SVG files below `dirPath`, sorted by path.
+// Symlinked images are included, symlinked directories are not followed.
+function collectImageFiles(dirPath: string) {
+  const found: string[] = [];
+  const walk = (dir: any) => {
+    let enumerator: any = null;
+    try {
+      enumerator = dir.enumerate_children(
+        'standard::name,standard::type',
+        Gio.FileQueryInfoFlags.NOFOLLOW_SYMLINKS,
+        null,
+      );
+    } catch (e) {
+      return;
+    }
+    let info: any = null;
+    while ((info = enumerator.next_file(null))) {
+      const name = info.get_name();
+      const child = dir.get_child(name);
+      const type = info.get_file_type();
+      if (type === Gio.FileType.DIRECTORY) {
+        walk(child);
+      } else if (
+        (type === Gio.FileType.REGULAR || type === Gio.FileType.SYMBOLIC_LINK) &&
+        BATCH_IMAGE_PATTERN.test(name)
+      ) {
+        found.push(child.get_path());
+      }
+    }
+    try {
+      enumerator.close(null);
+    } catch (e) {}
+  };
+  walk(Gio.File.new_for_path(dirPath));
+  found.sort();
+  return found;
+}
+
+// Helper: analyze one image for batch output; unreadable images become `{ input, error }`
+function analyzeImageForBatch(path: string, algorithm: string) {
+  try {
+    const pixbuf = loadAnalysisPixbuf(path);
+    if (!pixbuf) {
+      return { input: path, error: 'cannot read image' };
+    }
+    return buildAnalysisResult(path, algorithm, analyzePixbufDispatch(pixbuf, algorithm), pixbuf);
+  } catch (e) {
+    return { input: path, error: `cannot read image: ${(e as any).message || e}` };
+  }
+}
+
+// Helper: CSV export of batch results (one row per image)
+function batchResultsToCsv(results: any[]) {
+  const escape = (v: any) => {
+    const s = v === undefined || v === null ? '' : String(v);
+    return /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+  };
+  const rows = [
+    [
+      'input',
+      'algorithm',
+      'primary',
+      'light',
+      'light_contrast_white',
+      'light_contrast_black',
+      'light_visibility',
+      'dark',
+      'dark_contrast_white',
+      'dark_contrast_black',
+      'dark_visibility',
+      'error',
+    ],
+  ];
+  for (let i = 0; i < results.length; i++) {
+    const r = results[i];
+    if (r.error) {
+      rows.push([r.input, '', '', '', '', '', '', '', '', '', '', r.error]);
+      continue;
+    }
+    rows.push([
+      r.input,
+      r.algorithm,
+      r.primary.hex,
+      r.light.hex,
+      r.light.contrast.white,
+      r.light.contrast.black,
+      r.visibility ? r.visibility.light.score : '',
+      r.dark.hex,
+      r.dark.contrast.white,
+      r.dark.contrast.black,
+      r.visibility ? r.visibility.dark.score : '',
+      '',
+    ]);
+  }
+  return rows.map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+// Helper: plain-text table of batch results for the terminal
+function formatBatchTable(results: any[]) {
+  const rows: string[][] = [['ICON', 'LIGHT', 'W', 'B', 'DARK', 'W', 'B']];
+  for (let i = 0; i < results.length; i++) {
+    const r = results[i];
+    if (r.error) {
+      rows.push([r.input, `error: ${r.error}`]);
+      continue;
+    }
+    rows.push([
+      r.input,
+      r.light.hex,
+      r.light.contrast.white.toFixed(2),
+      r.light.contrast.black.toFixed(2),
+      r.dark.hex,
+      r.dark.contrast.white.toFixed(2),
+      r.dark.contrast.black.toFixed(2),
+    ]);
+  }
+  const widths: number[] = [];
+  rows.forEach((row) => {
+    if (row.length === 1 || row[1].indexOf('error:') === 0) {
+      return;
+    }
+    row.forEach((cell, c) => {
+      widths[c] = Math.max(widths[c] || 0, cell.length);
+    });
+  });
+  return rows
+    .map((row) =>
+      row
+        .map((cell, c) => (c < row.length - 1 && widths[c] ? cell.padEnd(widths[c]) : cell))
+        .join('  '),
+    )
+    .join('\n');
+}
+
+// Helper: best contrast of a described color against white or black text
+function bestTextContrast(color: any) {
+  return Math.max(color.contrast.white, color.contrast.black);
+}
+
+// Batch flow: pick a folder, analyze every PNG/SVG below it with the current
+// algorithm and show the results in a sortable table with CSV/JSON export.
+function showBatchWindow(parentWindow: any) {
+  chooseFolder(parentWindow, 'Analyze folder', (dirPath: string) => {
+    const paths = collectImageFiles(dirPath);
+    if (paths.length === 0) {
+      showMessageDialog(parentWindow, Gtk.MessageType.INFO, `No PNG or SVG files in ${dirPath}`);
+      return;
+    }
+    const algorithm = currentAlgorithm;
+    const results: any[] = [];
+
+    const win = new Gtk.Window({
+      transient_for: parentWindow || null,
+      default_width: 760,
+      default_height: 520,
+      title: `Batch: ${dirPath}`,
+    });
+    const outer = new Gtk.Box({ orientation: Gtk.Orientation.VERTICAL, spacing: 8 });
+    outer.set_margin_top(12);
+    outer.set_margin_bottom(12);
+    outer.set_margin_start(12);
+    outer.set_margin_end(12);
+
+    const toolbar = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+    const statusLabel = new Gtk.Label({ label: '', hexpand: true, xalign: 0 });
+    const exportCsv = new Gtk.Button({ label: 'Export CSV…' });
+    const exportJson = new Gtk.Button({ label: 'Export JSON…' });
+    exportCsv.set_sensitive(false);
+    exportJson.set_sensitive(false);
+    toolbar.append(statusLabel);
+    toolbar.append(exportCsv);
+    toolbar.append(exportJson);
+    outer.append(toolbar);
+
+    const grid = new Gtk.Grid({ column_spacing: 12, row_spacing: 4 });
+    const sw = new Gtk.ScrolledWindow({ vexpand: true, hexpand: true });
+    sw.set_child(grid);
+    outer.append(sw);
+    win.set_child(outer);
+
+    // Sort keys for each column; colors sort by lightness, contrasts by the
+    // better of white/black text
+    const columns: Array<{ title: string; key: (r: any) => any }> = [
+      { title: 'Icon', key: (r) => r.input },
+      { title: 'Light', key: (r) => (r.error ? -1 : r.light.hsl.l) },
+      { title: 'Light contrast', key: (r) => (r.error ? -1 : bestTextContrast(r.light)) },
+      { title: 'Dark', key: (r) => (r.error ? -1 : r.dark.hsl.l) },
+      { title: 'Dark contrast', key: (r) => (r.error ? -1 : bestTextContrast(r.dark)) },
+    ];
+    let sortColumn = 0;
+    let sortAscending = true;
+
+    const contrastText = (c: any) =>
+      `W ${c.contrast.white.toFixed(2)} / B ${c.contrast.black.toFixed(2)}`;
+    const colorCell = (c: any) => {
+      const cell = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+      cell.append(createColorSwatch(c.hex, 20));
+      cell.append(new Gtk.Label({ label: c.hex }));
+      return cell;
+    };
+
+    // Build the cells of one result once (loading its thumbnail), so sorting only
+    // reorders them. Each cell is [widget, column, width].
+    const rowCells = (r: any): Array<[any, number, number]> => {
+      const iconCell = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+      try {
+        const thumb = GdkPixbuf.Pixbuf.new_from_file_at_scale(r.input, 32, 32, true);
+        iconCell.append(Gtk.Image.new_from_pixbuf(thumb));
+      } catch (e) {}
+      const name = new Gtk.Label({ label: GLib.path_get_basename(r.input), xalign: 0 });
+      name.set_tooltip_text(r.input);
+      iconCell.append(name);
+      if (r.error) {
+        return [
+          [iconCell, 0, 1],
+          [new Gtk.Label({ label: r.error, xalign: 0 }), 1, 4],
+        ];
+      }
+      return [
+        [iconCell, 0, 1],
+        [colorCell(r.light), 1, 1],
+        [new Gtk.Label({ label: contrastText(r.light) }), 2, 1],
+        [colorCell(r.dark), 3, 1],
+        [new Gtk.Label({ label: contrastText(r.dark) }), 4, 1],
+      ];
+    };
+    const cells: Array<Array<[any, number, number]>> = [];
+
+    const headers = columns.map((col, c) => {
+      const header = new Gtk.Button({ label: col.title });
+      try {
+        header.add_css_class('flat');
+      } catch (e) {}
+      header.connect('clicked', () => {
+        if (sortColumn === c) {
+          sortAscending = !sortAscending;
+        } else {
+          sortColumn = c;
+          sortAscending = true;
+        }
+        rebuild();
+      });
+      grid.attach(header, c, 0, 1, 1);
+      return header;
+    });
+
+    const rebuild = () => {
+      columns.forEach((col, c) => {
+        const arrow = c === sortColumn ? (sortAscending ? ' ▲' : ' ▼') : '';
+        headers[c].set_label(col.title + arrow);
+      });
+      cells.forEach((rowWidgets) => rowWidgets.forEach(([widget]) => grid.remove(widget)));
+      const key = columns[sortColumn].key;
+      const order = results.map((r, i) => i);
+      order.sort((a, b) => {
+        const ka = key(results[a]);
+        const kb = key(results[b]);
+        const cmp = ka < kb ? -1 : ka > kb ? 1 : 0;
+        return sortAscending ? cmp : -cmp;
+      });
+      order.forEach((index, i) => {
+        if (!cells[index]) {
+          cells[index] = rowCells(results[index]);
+        }
+        cells[index].forEach(([widget, column, width]) =>
+          grid.attach(widget, column, i + 1, width, 1),
+        );
+      });
+    };
+
+    exportCsv.connect('clicked', () =>
+      chooseSaveFile(win, 'Export CSV', 'branding.csv', (path: string) => {
+        try {
+          GLib.file_set_contents(path, batchResultsToCsv(results));
+        } catch (e) {
+          showMessageDialog(win, Gtk.MessageType.ERROR, `Failed to write ${path}`);
+        }
+      }),
+    );
+    exportJson.connect('clicked', () =>
+      chooseSaveFile(win, 'Export JSON', 'branding.json', (path: string) => {
+        try {
+          GLib.file_set_contents(path, JSON.stringify(results, null, 2) + '\n');
+        } catch (e) {
+          showMessageDialog(win, Gtk.MessageType.ERROR, `Failed to write ${path}`);
+        }
+      }),
+    );
+
+    // Analyze one image per idle callback so the window stays responsive; stop
+    // when the window is closed
+    let index = 0;
+    statusLabel.set_text(`Analyzing 0/${paths.length} with ${algorithm}…`);
+    let idleId = GLib.idle_add(GLib.PRIORITY_DEFAULT_IDLE, () => {
+      if (index < paths.length) {
+        results.push(analyzeImageForBatch(paths[index], algorithm));
+        index++;
+        statusLabel.set_text(`Analyzing ${index}/${paths.length} with ${algorithm}…`);
+        return true;
+      }
+      statusLabel.set_text(`${paths.length} images analyzed with ${algorithm}`);
+      exportCsv.set_sensitive(true);
+      exportJson.set_sensitive(true);
+      idleId = 0;
+      rebuild();
+      return false;
+    });
+    win.connect('close-request', () => {
+      if (idleId) {
+        GLib.source_remove(idleId);
+        idleId = 0;
+      }
+      return false;
+    });
+    rebuild();
+    win.present();
+  });
+}
+
+// Push currentColors to the color labels, the preview backgrounds (via the CSS
+// providers), the overlay contrast and visibility labels and the comparison with
+// the published branding. Previews, contrast and visibility follow the
+// color-vision-deficiency simulation, if any.
+function updateBrandingDisplay() {
+  if (!currentColors) {
+    return;
+  }
+  const lightColor = currentColors.light;
+  const darkColor = currentColors.dark;
+  const shownLight = simulateCvdHex(lightColor, cvdSimulation);
+  const shownDark = simulateCvdHex(darkColor, cvdSimulation);
+  const simulation = CVD_MODES.find((m) => m.id === cvdSimulation && m.matrix);
+  const visibilityPixbuf = simulatedAnalysisPixbuf();
+  syncColorEditors();
+  if (previewMockup) {
+    queuePreviewRedraw();
+  }
+  try {
+    if (colorLabelLight) {
+      colorLabelLight.set_text(`Light: ${lightColor}`);
+    }
+    if (colorLabelDark) {
+      colorLabelDark.set_text(`Dark: ${darkColor}`);
+    }
+  } catch (e) {}
+
+  // Update previews background colors via CSS providers if available
+  try {
+    // Use the chosen primary branding color as the preview background so the
+    // image is shown on top of the brand color for both light/dark previews.
+    const cssPrimaryLight = `#preview-light { background-color: ${shownLight}; min-width: 300px; min-height: 300px; padding: 12px; }`;
+    const cssPrimaryDark = `#preview-dark { background-color: ${shownDark}; min-width: 300px; min-height: 300px; padding: 12px; }`;
+    try {
+      if (providerLight && providerLight.load_from_data) {
+        providerLight.load_from_data(cssPrimaryLight, -1);
+      }
+    } catch (e) {
+      console.log(e);
+    }
+    try {
+      if (providerDark && providerDark.load_from_data) {
+        providerDark.load_from_data(cssPrimaryDark, -1);
+      }
+    } catch (e) {
+      console.log(e);
+    }
+  } catch (e) {
+    // ignore
+  }
+
+  // Update overlay labels
+  try {
+    // small helper to escape markup
+    const escapeMarkup = (s: string) =>
+      s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    // overlay labels: show color hex and contrast vs white/black
+    try {
+      if (overlayLabelLight) {
+        const contrastWithWhite = contrastRatio(shownLight, '#ffffff').toFixed(2);
+        const contrastWithBlack = contrastRatio(shownLight, '#000000').toFixed(2);
+        let text = `${lightColor} (W:${contrastWithWhite}, B:${contrastWithBlack})`;
+        if (simulation) {
+          text += `\n${simulation.label}: seen as ${shownLight}`;
+        }
+        if (visibilityPixbuf) {
+          text += `\nIcon ${formatVisibility(iconVisibility(visibilityPixbuf, shownLight))}`;
+        }
+        try {
+          overlayLabelLight.set_text(text);
+        } catch (e) {}
+      }
+    } catch (e) {}
+    try {
+      if (overlayLabelDark) {
+        const contrastWithWhite = contrastRatio(shownDark, '#ffffff').toFixed(2);
+        const contrastWithBlack = contrastRatio(shownDark, '#000000').toFixed(2);
+        let text = `${darkColor} (W:${contrastWithWhite}, B:${contrastWithBlack})`;
+        if (simulation) {
+          text += `\n${simulation.label}: seen as ${shownDark}`;
+        }
+        if (visibilityPixbuf) {
+          text += `\nIcon ${formatVisibility(iconVisibility(visibilityPixbuf, shownDark))}`;
+        }
+        try {
+          overlayLabelDark.set_text(text);
+        } catch (e) {}
+      }
+    } catch (e) {}
+  } catch (e) {}
+  try {
+    updatePublishedBranding();
+  } catch (e) {
+    log('Failed to show the published branding:', e);
+  }
+}
+
+// Fill publishedBrandingBox with the branding published on Flathub for the loaded
+// app: the icon on each published color, its contrast against the banner text next
+// to the shown color's, and a button to keep the published colors. Hidden when the
+// image was not loaded from Flathub.
+function updatePublishedBranding() {
+  if (!publishedBrandingBox) {
+    return;
+  }
+  try {
+    let child = publishedBrandingBox.get_first_child();
+    while (child) {
+      const next = child.get_next_sibling();
+      publishedBrandingBox.remove(child);
+      child = next;
+    }
+  } catch (e) {}
+  if (!currentMetadata || !currentColors) {
+    publishedBrandingBox.set_visible(false);
+    return;
+  }
+  const shown = currentColors;
+  const published = flathubBranding(currentMetadata);
+  const heading = new Gtk.Label({ label: 'Current on Flathub' });
+  try {
+    heading.add_css_class('heading');
+  } catch (e) {}
+  publishedBrandingBox.append(heading);
+  publishedBrandingBox.set_visible(true);
+  if (!published) {
+    const none = new Gtk.Label({ label: 'No branding published' });
+    try {
+      none.add_css_class('dim-label');
+    } catch (e) {}
+    publishedBrandingBox.append(none);
+    return;
+  }
+
+  // Icon thumbnail, with the same simulation as the previews
+  let icon: any = null;
+  try {
+    const source = simulatedAnalysisPixbuf();
+    const scale = 64 / Math.max(source.get_width(), source.get_height());
+    icon = source.scale_simple(
+      Math.max(1, Math.round(source.get_width() * scale)),
+      Math.max(1, Math.round(source.get_height() * scale)),
+      GdkPixbuf.InterpType.BILINEAR,
+    );
+  } catch (e) {}
+  const schemes: Array<['light' | 'dark', string, string]> = [
+    ['light', 'Light', BANNER_TEXT_ON_LIGHT],
+    ['dark', 'Dark', BANNER_TEXT_ON_DARK],
+  ];
+  schemes.forEach(([scheme, title, textHex]) => {
+    const hex = published[scheme];
+    if (!hex) {
+      publishedBrandingBox.append(new Gtk.Label({ label: `${title}: not published` }));
+      return;
+    }
+    const area = new Gtk.DrawingArea();
+    area.set_size_request(120, 96);
+    area.set_draw_func((a: any, cr: any, width: number, height: number) => {
+      try {
+        paintIconOnColor(cr, width, height, simulateCvdHex(hex, cvdSimulation), icon);
+      } catch (e) {}
+    });
+    area.set_tooltip_text(`${title} ${hex}`);
+    publishedBrandingBox.append(area);
+    const current = contrastRatio(simulateCvdHex(hex, cvdSimulation), textHex);
+    const suggested = contrastRatio(simulateCvdHex(shown[scheme], cvdSimulation), textHex);
+    const warning = current < DEFAULT_MIN_CONTRAST ? ' ⚠' : '';
+    const caption = new Gtk.Label({
+      label: `${title} ${hex}\nText ${current.toFixed(2)}:1${warning}\nShown ${
+        shown[scheme]
+      }: ${suggested.toFixed(2)}:1`,
+      justify: Gtk.Justification.CENTER,
+    });
+    try {
+      caption.add_css_class('caption');
+    } catch (e) {}
+    publishedBrandingBox.append(caption);
+  });
+
+  const keepButton = new Gtk.Button({ label: 'Keep current' });
+  keepButton.set_tooltip_text('Use the colors published on Flathub instead of the suggestion');
+  keepButton.set_sensitive(
+    (!!published.light && published.light !== shown.light) ||
+      (!!published.dark && published.dark !== shown.dark),
+  );
+  keepButton.connect('clicked', () => keepPublishedBranding());
+  publishedBrandingBox.append(keepButton);
+}
+
+// Make the colors published on Flathub the current branding; a scheme without a
+// published color keeps its current one
+function keepPublishedBranding() {
+  const published = flathubBranding(currentMetadata);
+  if (!currentColors || !published) {
+    return;
+  }
+  currentColors = Object.assign({}, currentColors, {
+    light: published.light || currentColors.light,
+    dark: published.dark || currentColors.dark,
+  });
+  try {
+    if (candidatesBox) {
+      candidatesBox.unselect_all();
+    }
+  } catch (e) {}
+  updateBrandingDisplay();
+}
+
+// Fill candidatesBox with one clickable swatch row per candidate palette, ranked
+// by score, with the analyzer's suggestion selected. Activating a row makes it
+// the current branding.
+function populateCandidates(candidates: any[]) {
+  if (!candidatesBox) {
+    return;
+  }
+  try {
+    let child = candidatesBox.get_first_child();
+    while (child) {
+      const next = child.get_next_sibling();
+      candidatesBox.remove(child);
+      child = next;
+    }
+  } catch (e) {}
+  if (!candidates || candidates.length === 0) {
+    candidatesBox.set_visible(false);
+    return;
+  }
+  for (let i = 0; i < candidates.length; i++) {
+    const c = candidates[i];
+    const rowBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 8 });
+    rowBox.append(new Gtk.Label({ label: `${i + 1}.` }));
+    rowBox.append(createColorSwatch(c.light, 20));
+    rowBox.append(createColorSwatch(c.dark, 20));
+    rowBox.append(new Gtk.Label({ label: `${c.light} / ${c.dark}` }));
+    rowBox.append(new Gtk.Label({ label: `score ${c.score.toFixed(2)}` }));
+    const reason = new Gtk.Label({ label: c.reason, xalign: 0, hexpand: true });
+    try {
+      reason.add_css_class('dim-label');
+    } catch (e) {}
+    rowBox.append(reason);
+    const row = new Gtk.ListBoxRow();
+    row.set_child(rowBox);
+    (row as any)._candidate = c;
+    candidatesBox.append(row);
+    if (c.suggested) {
+      candidatesBox.select_row(row);
+    }
+  }
+  candidatesBox.set_visible(true);
+}
+
+// Helper: normalize user input like "abc", "#AABBCC" to "#aabbcc"; null if invalid
+function normalizeHex(text: string) {
+  const m = (text || '').trim().match(/^#?([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/);
+  if (!m) {
+    return null;
+  }
+  let digits = m[1].toLowerCase();
+  if (digits.length === 3) {
+    digits = digits
+      .split('')
+      .map((c) => c + c)
+      .join('');
+  }
+  return '#' + digits;
+}
+
+// Set one scheme's branding color by hand (from the color editors) and refresh
+// the previews, labels and snippet
+function setSchemeColor(scheme: 'light' | 'dark', hex: string) {
+  if (!currentColors || currentColors[scheme] === hex) {
+    return;
+  }
+  currentColors = Object.assign({}, currentColors, { [scheme]: hex });
+  try {
+    if (candidatesBox) {
+      candidatesBox.unselect_all();
+    }
+  } catch (e) {}
+  updateBrandingDisplay();
+}
+
+// Restore the colors suggested by the analyzer, discarding manual edits
+function resetToSuggestion() {
+  if (!suggestedColors) {
+    return;
+  }
+  currentColors = Object.assign({}, suggestedColors);
+  try {
+    if (candidatesBox) {
+      for (let i = 0; ; i++) {
+        const row = candidatesBox.get_row_at_index(i);
+        if (!row) {
+          break;
+        }
+        if ((row as any)._candidate && (row as any)._candidate.suggested) {
+          candidatesBox.select_row(row);
+          break;
+        }
+      }
+    }
+  } catch (e) {}
+  updateBrandingDisplay();
+}
+
+// Helper: build the editor for one scheme: a color button (Gtk.ColorDialogButton
+// when available) plus a hex entry. Returns the container widget.
+function createSchemeColorEditor(scheme: 'light' | 'dark', title: string) {
+  const editorBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+  editorBox.append(new Gtk.Label({ label: `${title}:` }));
+
+  let button: any = null;
+  try {
+    if (Gtk.ColorDialogButton && Gtk.ColorDialog) {
+      button = new Gtk.ColorDialogButton({
+        dialog: new Gtk.ColorDialog({ title: `${title} branding color`, with_alpha: false }),
+      });
+    } else if (Gtk.ColorButton) {
+      button = new Gtk.ColorButton({ use_alpha: false });
+    }
+  } catch (e) {
+    button = null;
+  }
+  const entry = new Gtk.Entry({ width_chars: 8, max_length: 7 });
+
+  const editor = { button, entry };
+  if (scheme === 'light') {
+    colorEditorLight = editor;
+  } else {
+    colorEditorDark = editor;
+  }
+
+  if (button) {
+    button.connect('notify::rgba', () => {
+      if (updatingColorEditors) {
+        return;
+      }
+      try {
+        const rgba = button.get_rgba();
+        setSchemeColor(scheme, safeRgbToHex(rgba.red * 255, rgba.green * 255, rgba.blue * 255));
+      } catch (e) {}
+    });
+    editorBox.append(button);
+  }
+  entry.connect('changed', () => {
+    if (updatingColorEditors) {
+      return;
+    }
+    const hex = normalizeHex(entry.get_text());
+    try {
+      if (hex) {
+        entry.remove_css_class('error');
+      } else {
+        entry.add_css_class('error');
+      }
+    } catch (e) {}
+    if (hex) {
+      setSchemeColor(scheme, hex);
+    }
+  });
+  editorBox.append(entry);
+  return editorBox;
+}
+
+// Show currentColors in the color editors without triggering their change handlers
+function syncColorEditors() {
+  if (!currentColors) {
+    return;
+  }
+  updatingColorEditors = true;
+  try {
+    const editors: Array<[any, string]> = [
+      [colorEditorLight, currentColors.light],
+      [colorEditorDark, currentColors.dark],
+    ];
+    for (let i = 0; i < editors.length; i++) {
+      const [editor, hex] = editors[i];
+      if (!editor) {
+        continue;
+      }
+      try {
+        if (editor.button) {
+          const rgba = new Gdk.RGBA();
+          if (rgba.parse(hex)) {
+            editor.button.set_rgba(rgba);
+          }
+        }
+      } catch (e) {}
+      try {
+        // Keep the user's spelling while they type (e.g. "#ABC" vs "#aabbcc")
+        if (normalizeHex(editor.entry.get_text()) !== hex) {
+          editor.entry.set_text(hex);
+        }
+        editor.entry.remove_css_class('error');
+      } catch (e) {}
+    }
+  } catch (e) {}
+  updatingColorEditors = false;
+}
+
+// Helper: where the preview drawing areas paint the image: a square of `size`
+// at (x, y), centered and covering the area minus its padding
+function previewImageRect(width: number, height: number) {
+  const padding = 12;
+  const availW = Math.max(1, width - padding * 2);
+  const availH = Math.max(1, height - padding * 2);
+  const size = Math.max(availW, availH);
+  return { x: Math.floor((width - size) / 2), y: Math.floor((height - size) / 2), size };
+}
+
+// Last mask overlay painted on the previews, keyed by image path and preview size
+let backgroundOverlayCache: { key: string; pixbuf: any } | null = null;
+
+// Helper: when the mask overlay is enabled, highlight the backdrop detected in the
+// preview pixbuf `pb` (painted at x, y) in translucent magenta
+function paintBackgroundMaskOverlay(cr: any, pb: any, x: number, y: number) {
+  if (!showBackgroundMask || !currentImagePath) {
+    return;
+  }
+  try {
+    const key = `${currentImagePath}:${pb.get_width()}x${pb.get_height()}`;
+    if (!backgroundOverlayCache || backgroundOverlayCache.key !== key) {
+      const background = detectBackgroundMask(pb);
+      const width = pb.get_width();
+      const overlay = background
+        ? mapPixbufPixels(pb, (px, py) =>
+            background.mask[py * width + px] ? [255, 0, 255, 140] : [0, 0, 0, 0],
+          )
+        : null;
+      backgroundOverlayCache = { key, pixbuf: overlay };
+    }
+    if (backgroundOverlayCache.pixbuf) {
+      (Gdk as any).cairo_set_source_pixbuf(cr, backgroundOverlayCache.pixbuf, x, y);
+      cr.paint();
+    }
+  } catch (e) {}
+}
+
+// Helper: the preview pixbuf as it should be painted under the current simulation
+function simulatedPreviewPixbuf(pb: any) {
+  if (cvdSimulation === 'none' || !currentImagePath) {
+    return pb;
+  }
+  try {
+    const key = `${currentImagePath}:${pb.get_width()}x${pb.get_height()}:${cvdSimulation}`;
+    if (!cvdPreviewCache || cvdPreviewCache.key !== key) {
+      cvdPreviewCache = { key, pixbuf: simulateCvdPixbuf(pb, cvdSimulation) };
+    }
+    return cvdPreviewCache.pixbuf;
+  } catch (e) {
+    return pb;
+  }
+}
+
+// Helper: the analysis pixbuf of the current image under the current simulation
+function simulatedAnalysisPixbuf() {
+  if (cvdSimulation === 'none' || !currentAnalysisPixbuf) {
+    return currentAnalysisPixbuf;
+  }
+  try {
+    if (
+      !cvdAnalysisCache ||
+      cvdAnalysisCache.source !== currentAnalysisPixbuf ||
+      cvdAnalysisCache.mode !== cvdSimulation
+    ) {
+      cvdAnalysisCache = {
+        source: currentAnalysisPixbuf,
+        mode: cvdSimulation,
+        pixbuf: simulateCvdPixbuf(currentAnalysisPixbuf, cvdSimulation),
+      };
+    }
+    return cvdAnalysisCache.pixbuf;
+  } catch (e) {
+    return currentAnalysisPixbuf;
+  }
+}
+
+// Helper: redraw both preview drawing areas
+function queuePreviewRedraw() {
+  [drawingLight, drawingDark].forEach((area: any) => {
+    try {
+      if (area) {
+        area.queue_draw();
+      }
+    } catch (e) {}
+  });
+}
+
+// Helper: average color of the non-transparent pixels within `radius` of (cx, cy).
+// Returns null when there is nothing opaque to sample there.
+function samplePixbufColor(pixbuf: any, cx: number, cy: number, radius: number) {
+  const width = pixbuf.get_width();
+  const height = pixbuf.get_height();
+  const rowstride = pixbuf.get_rowstride();
+  const n_channels = pixbuf.get_n_channels();
+  const pixels = pixbuf.get_pixels();
+  const hasAlpha = n_channels === 4;
+  const r2 = radius * radius;
+  let rsum = 0,
+    gsum = 0,
+    bsum = 0,
+    count = 0;
+  for (let y = Math.max(0, cy - radius); y <= Math.min(height - 1, cy + radius); y++) {
+    for (let x = Math.max(0, cx - radius); x <= Math.min(width - 1, cx + radius); x++) {
+      const dx = x - cx;
+      const dy = y - cy;
+      if (dx * dx + dy * dy > r2) {
+        continue;
+      }
+      const idx = y * rowstride + x * n_channels;
+      if (hasAlpha && (pixels[idx + 3] & 0xff) < 10) {
+        continue;
+      }
+      rsum += pixels[idx] & 0xff;
+      gsum += pixels[idx + 1] & 0xff;
+      bsum += pixels[idx + 2] & 0xff;
+      count++;
+    }
+  }
+  if (count === 0) {
+    return null;
+  }
+  return [Math.round(rsum / count), Math.round(gsum / count), Math.round(bsum / count)];
+}
+
+// Eyedropper: use the color under (x, y) of a preview drawing area as the primary
+// color and re-derive the light/dark variants like the k-means analyzer does
+function pickColorFromPreview(area: any, x: number, y: number) {
+  if (!currentImagePath || !currentColors || previewMockup) {
+    return;
+  }
+  try {
+    const rect = previewImageRect(area.get_width(), area.get_height());
+    const pb = scaleAndCropToSquare(currentImagePath, rect.size);
+    if (!pb) {
+      return;
+    }
+    const px = Math.floor(x - rect.x);
+    const py = Math.floor(y - rect.y);
+    if (px < 0 || py < 0 || px >= pb.get_width() || py >= pb.get_height()) {
+      return;
+    }
+    const rgb = samplePixbufColor(pb, px, py, eyedropperRadius);
+    if (!rgb) {
+      return;
+    }
+    const variants = applyDerivationMode(deriveHslVariants(rgb));
+    currentColors = {
+      primary: safeRgbToHex(rgb[0], rgb[1], rgb[2]),
+      light: variants.light,
+      dark: variants.dark,
+    };
+    try {
+      if (candidatesBox) {
+        candidatesBox.unselect_all();
+      }
+    } catch (e) {}
+    updateBrandingDisplay();
+  } catch (e) {
+    log('Eyedropper failed:', e);
+  }
+}
+
+// Helper: let clicks on a preview drawing area pick colors while the eyedropper is active
+function attachEyedropper(area: any) {
+  try {
+    const click = new Gtk.GestureClick();
+    click.connect('pressed', (gesture: any, nPress: number, x: number, y: number) => {
+      if (eyedropperActive) {
+        pickColorFromPreview(area, x, y);
+      }
+    });
+    area.add_controller(click);
+  } catch (e) {}
+}
+
+// Helper: toggle the eyedropper and show a crosshair over the previews while active
+function setEyedropperActive(active: boolean) {
+  eyedropperActive = active;
+  const areas = [drawingLight, drawingDark];
+  for (let i = 0; i < areas.length; i++) {
+    try {
+      if (areas[i]) {
+        areas[i].set_cursor(active ? Gdk.Cursor.new_from_name('crosshair', null) : null);
+      }
+    } catch (e) {}
+  }
+}
+
+// Helper: the rectangle spanned by two points of a preview area, normalized to the
+// painted image square and clamped to it
+function regionFromPoints(area: any, x0: number, y0: number, x1: number, y1: number) {
+  const rect = previewImageRect(area.get_width(), area.get_height());
+  const clamp = (v: number) => Math.min(1, Math.max(0, v));
+  const left = clamp((Math.min(x0, x1) - rect.x) / rect.size);
+  const top = clamp((Math.min(y0, y1) - rect.y) / rect.size);
+  const right = clamp((Math.max(x0, x1) - rect.x) / rect.size);
+  const bottom = clamp((Math.max(y0, y1) - rect.y) / rect.size);
+  return { x: left, y: top, w: right - left, h: bottom - top };
+}
+
+// Helper: let drags on a preview drawing area select analysisRegion while region
+// selection is active; `onChanged` runs once a new region is set
+function attachRegionSelector(area: any, onChanged: () => void) {
+  try {
+    const drag = new Gtk.GestureDrag();
+    let startX = 0;
+    let startY = 0;
+    drag.connect('drag-begin', (gesture: any, x: number, y: number) => {
+      if (!regionSelectActive || !currentImagePath || previewMockup) {
+        return;
+      }
+      startX = x;
+      startY = y;
+      regionDraft = regionFromPoints(area, x, y, x, y);
+      queuePreviewRedraw();
+    });
+    drag.connect('drag-update', (gesture: any, dx: number, dy: number) => {
+      if (!regionDraft) {
+        return;
+      }
+      regionDraft = regionFromPoints(area, startX, startY, startX + dx, startY + dy);
+      queuePreviewRedraw();
+    });
+    drag.connect('drag-end', (gesture: any, dx: number, dy: number) => {
+      if (!regionDraft) {
+        return;
+      }
+      const region = regionFromPoints(area, startX, startY, startX + dx, startY + dy);
+      regionDraft = null;
+      queuePreviewRedraw();
+      // Ignore clicks and accidental tiny drags
+      if (region.w >= 0.02 && region.h >= 0.02) {
+        analysisRegion = region;
+        onChanged();
+      }
+    });
+    area.add_controller(drag);
+  } catch (e) {}
+}
+
+// Helper: toggle region selection; shows a crosshair over the light preview
+function setRegionSelectActive(active: boolean) {
+  regionSelectActive = active;
+  try {
+    if (drawingLight) {
+      drawingLight.set_cursor(active ? Gdk.Cursor.new_from_name('crosshair', null) : null);
+    }
+  } catch (e) {}
+}
+
+// Helper: outline the selected (or currently dragged) region on a preview whose
+// image square of `size` is painted at (x, y)
+function paintRegionOverlay(cr: any, x: number, y: number, size: number) {
+  const region = regionDraft || analysisRegion;
+  if (!region) {
+    return;
+  }
+  try {
+    const rx = x + region.x * size;
+    const ry = y + region.y * size;
+    const rw = region.w * size;
+    const rh = region.h * size;
+    // Dark and light dashes so the outline shows on any branding color
+    cr.setLineWidth(2);
+    cr.setDash([6, 6], 0);
+    cr.setSourceRGBA(0, 0, 0, 0.8);
+    cr.rectangle(rx, ry, rw, rh);
+    cr.stroke();
+    cr.setDash([6, 6], 6);
+    cr.setSourceRGBA(1, 1, 1, 0.9);
+    cr.rectangle(rx, ry, rw, rh);
+    cr.stroke();
+    cr.setDash([], 0);
+  } catch (e) {}
+}
+
+// Window backgrounds of the Adwaita light and dark styles, drawn around the banner mockup
+const MOCKUP_PAGE_BG_LIGHT = '#fafafa';
+const MOCKUP_PAGE_BG_DARK = '#242424';
+
+// Show the previews as a GNOME Software style banner instead of the icon square
+let previewMockup = false;
+
+// Helper: texts shown on the banner mockup: the fetched Flathub metadata when
+// available, placeholders derived from the image file name otherwise
+function mockupTexts() {
+  const meta = currentMetadata || {};
+  let name = meta.name;
+  if (!name && currentImagePath) {
+    name = GLib.path_get_basename(currentImagePath).replace(/\.[^.]+$/, '');
+  }
+  const developer =
+    meta.developer_name || (meta.developer && meta.developer.name) || meta.project_group;
+  return {
+    name: name || 'App Name',
+    developer: developer || 'Developer',
+    summary: meta.summary || '',
+  };
+}
+
+// Helper: paint a GNOME Software style banner: a rounded tile in the branding color
+// on the window background, the icon on the left and the app name, developer and
+// summary in the text color GNOME Software uses for that scheme
+function paintBannerMockup(
+  cr: any,
+  width: number,
+  height: number,
+  scheme: 'light' | 'dark',
+  bgHex: string,
+) {
+  const setSourceHex = (hex: string, alpha: number) => {
+    const [r, g, b] = hexToRgb(hex);
+    cr.setSourceRGBA(r / 255, g / 255, b / 255, alpha);
+  };
+  setSourceHex(scheme === 'light' ? MOCKUP_PAGE_BG_LIGHT : MOCKUP_PAGE_BG_DARK, 1);
+  cr.rectangle(0, 0, width, height);
+  cr.fill();
+
+  const margin = 12;
+  const tileW = Math.max(1, width - margin * 2);
+  const tileH = Math.max(1, Math.min(height - margin * 2, Math.round(tileW * 0.55)));
+  const tileX = margin;
+  const tileY = Math.floor((height - tileH) / 2);
+  const radius = 12;
+  cr.newSubPath();
+  cr.arc(tileX + tileW - radius, tileY + radius, radius, -Math.PI / 2, 0);
+  cr.arc(tileX + tileW - radius, tileY + tileH - radius, radius, 0, Math.PI / 2);
+  cr.arc(tileX + radius, tileY + tileH - radius, radius, Math.PI / 2, Math.PI);
+  cr.arc(tileX + radius, tileY + radius, radius, Math.PI, (3 * Math.PI) / 2);
+  cr.closePath();
+  setSourceHex(bgHex, 1);
+  cr.fill();
+
+  const inset = Math.round(tileH * 0.15);
+  const iconSize = Math.max(16, Math.round(tileH * 0.5));
+  const iconX = tileX + inset;
+  try {
+    if (currentImagePath) {
+      const icon = GdkPixbuf.Pixbuf.new_from_file_at_scale(
+        currentImagePath,
+        iconSize,
+        iconSize,
+        true,
+      );
+      Gdk.cairo_set_source_pixbuf(
+        cr,
+        simulatedPreviewPixbuf(icon),
+        iconX + Math.floor((iconSize - icon.get_width()) / 2),
+        tileY + Math.floor((tileH - icon.get_height()) / 2),
+      );
+      cr.paint();
+    }
+  } catch (e) {}
+
+  try {
+    const Pango = imports.gi.Pango;
+    const PangoCairo = imports.gi.PangoCairo;
+    const textX = iconX + iconSize + inset;
+    const textW = Math.max(1, tileX + tileW - inset - textX);
+    const titlePx = Math.max(12, Math.round(tileH * 0.13));
+    const smallPx = Math.max(9, Math.round(titlePx * 0.7));
+    const makeLayout = (text: string, px: number, bold: boolean, lines: number) => {
+      const layout = PangoCairo.create_layout(cr);
+      const font = Pango.FontDescription.from_string(bold ? 'Sans Bold' : 'Sans');
+      font.set_absolute_size(px * Pango.SCALE);
+      layout.set_font_description(font);
+      layout.set_width(textW * Pango.SCALE);
+      layout.set_height(-lines);
+      layout.set_ellipsize(Pango.EllipsizeMode.END);
+      layout.set_wrap(Pango.WrapMode.WORD_CHAR);
+      layout.set_text(text, -1);
+      return layout;
+    };
+    const texts = mockupTexts();
+    // [layout, opacity]: secondary text is the title color at reduced opacity
+    const blocks: Array<[any, number]> = [
+      [makeLayout(texts.name, titlePx, true, 2), 1],
+      [makeLayout(texts.developer, smallPx, false, 1), 0.7],
+    ];
+    if (texts.summary) {
+      blocks.push([makeLayout(texts.summary, smallPx, false, 2), 0.85]);
+    }
+    const gap = Math.round(smallPx * 0.4);
+    const heights = blocks.map(([layout]) => layout.get_pixel_size()[1]);
+    const total = heights.reduce((a, b) => a + b, 0) + gap * (blocks.length - 1);
+    let y = tileY + Math.max(0, Math.floor((tileH - total) / 2));
+    const textHex = scheme === 'light' ? BANNER_TEXT_ON_LIGHT : BANNER_TEXT_ON_DARK;
+    blocks.forEach(([layout, alpha], i) => {
+      setSourceHex(textHex, alpha);
+      cr.moveTo(textX, y);
+      PangoCairo.show_layout(cr, layout);
+      y += heights[i] + gap;
+    });
+  } catch (e) {}
+}
+
+// Helper: paint a solid background with an icon pixbuf centered on it
+function paintIconOnColor(cr: any, width: number, height: number, bgHex: string, icon: any) {
+  const [r, g, b] = hexToRgb(bgHex);
+  cr.setSourceRGB(r / 255, g / 255, b / 255);
+  cr.rectangle(0, 0, width, height);
+  cr.fill();
+  if (!icon) {
+    return;
+  }
+  const x = Math.floor((width - icon.get_width()) / 2);
+  const y = Math.floor((height - icon.get_height()) / 2);
+  Gdk.cairo_set_source_pixbuf(cr, icon, x, y);
+  cr.paint();
+}
+
+// Edge lengths offered when exporting the previews (per preview, in pixels)
+const EXPORT_SIZES = [256, 512, 1024];
+
+// Helper: paint one preview as the window shows it (icon square or banner mockup,
+// with the current simulation) into a `size` square, and the caption of its
+// overlay label into a `captionHeight` strip below it
+function paintExportPreview(
+  cr: any,
+  size: number,
+  captionHeight: number,
+  scheme: 'light' | 'dark',
+) {
+  if (!currentColors) {
+    return;
+  }
+  const bg = simulateCvdHex(
+    scheme === 'light' ? currentColors.light : currentColors.dark,
+    cvdSimulation,
+  );
+  if (previewMockup) {
+    paintBannerMockup(cr, size, size, scheme, bg);
+  } else {
+    const padding = Math.round(size * 0.04);
+    const icon = currentImagePath
+      ? scaleAndCropToSquare(currentImagePath, size - padding * 2)
+      : null;
+    paintIconOnColor(cr, size, size, bg, icon ? simulatedPreviewPixbuf(icon) : null);
+  }
+
+  const pageBg = scheme === 'light' ? MOCKUP_PAGE_BG_LIGHT : MOCKUP_PAGE_BG_DARK;
+  const textHex = scheme === 'light' ? BANNER_TEXT_ON_LIGHT : BANNER_TEXT_ON_DARK;
+  const [pr, pg, pb] = hexToRgb(pageBg);
+  cr.setSourceRGB(pr / 255, pg / 255, pb / 255);
+  cr.rectangle(0, size, size, captionHeight);
+  cr.fill();
+  try {
+    const label = scheme === 'light' ? overlayLabelLight : overlayLabelDark;
+    const caption = label ? label.get_text() : '';
+    const Pango = imports.gi.Pango;
+    const PangoCairo = imports.gi.PangoCairo;
+    const padding = Math.round(size * 0.03);
+    const layout = PangoCairo.create_layout(cr);
+    const font = Pango.FontDescription.from_string('Sans');
+    font.set_absolute_size(Math.max(9, Math.round(size * 0.035)) * Pango.SCALE);
+    layout.set_font_description(font);
+    layout.set_width((size - padding * 2) * Pango.SCALE);
+    layout.set_height((captionHeight - padding * 2) * Pango.SCALE);
+    layout.set_wrap(Pango.WrapMode.WORD_CHAR);
+    layout.set_ellipsize(Pango.EllipsizeMode.END);
+    layout.set_alignment(Pango.Alignment.CENTER);
+    layout.set_text(caption, -1);
+    const [tr, tg, tb] = hexToRgb(textHex);
+    cr.setSourceRGB(tr / 255, tg / 255, tb / 255);
+    cr.moveTo(padding, size + padding);
+    PangoCairo.show_layout(cr, layout);
+  } catch (e) {}
+}
+
+// Helper: render the previews of `schemes` side by side on an offscreen surface,
+// each `size` pixels wide, with their captions
+function renderPreviewSurface(schemes: Array<'light' | 'dark'>, size: number) {
+  const Cairo = imports.cairo;
+  const captionHeight = Math.round(size * 0.2);
+  const gap = Math.round(size * 0.04);
+  const surface = new Cairo.ImageSurface(
+    Cairo.Format.ARGB32,
+    size * schemes.length + gap * (schemes.length - 1),
+    size + captionHeight,
+  );
+  const cr = new Cairo.Context(surface);
+  schemes.forEach((scheme, i) => {
+    cr.save();
+    cr.translate(i * (size + gap), 0);
+    paintExportPreview(cr, size, captionHeight, scheme);
+    cr.restore();
+  });
+  try {
+    cr.$dispose();
+  } catch (e) {}
+  return surface;
+}
+
+// Export dialog: pick a resolution and whether to write one combined side-by-side
+// PNG or one PNG per scheme, then choose where to save them
+function showExportPreviewsDialog(parentWindow: any) {
+  if (!currentImagePath || !currentColors) {
+    return;
+  }
+  const imagePath = currentImagePath;
+  const baseName = GLib.path_get_basename(imagePath).replace(/\.[^.]+$/, '');
+  try {
+    const dialog = new Gtk.Dialog({
+      transient_for: parentWindow || null,
+      modal: true,
+      title: 'Export previews',
+    });
+    try {
+      dialog.add_buttons('Cancel', Gtk.ResponseType.CANCEL, 'Export…', Gtk.ResponseType.ACCEPT);
+    } catch (e) {}
+
+    const grid = new Gtk.Grid({ row_spacing: 8, column_spacing: 12 });
+    grid.set_margin_top(12);
+    grid.set_margin_bottom(12);
+    grid.set_margin_start(12);
+    grid.set_margin_end(12);
+    const sizeDropDown = Gtk.DropDown.new_from_strings(EXPORT_SIZES.map((n) => `${n} × ${n}`));
+    sizeDropDown.set_selected(1);
+    const combinedCheck = new Gtk.CheckButton({ label: 'One side-by-side image' });
+    const separateCheck = new Gtk.CheckButton({ label: 'Separate light and dark images' });
+    separateCheck.set_group(combinedCheck);
+    combinedCheck.set_active(true);
+    grid.attach(new Gtk.Label({ label: 'Resolution:', xalign: 0 }), 0, 0, 1, 1);
+    grid.attach(sizeDropDown, 1, 0, 1, 1);
+    grid.attach(new Gtk.Label({ label: 'Layout:', xalign: 0 }), 0, 1, 1, 1);
+    grid.attach(combinedCheck, 1, 1, 1, 1);
+    grid.attach(separateCheck, 1, 2, 1, 1);
+    try {
+      dialog.get_content_area().append(grid);
+    } catch (e) {
+      try {
+        (dialog as any).set_child(grid);
+      } catch (e) {}
+    }
+
+    const writePngs = (targets: Array<{ path: string; schemes: Array<'light' | 'dark'> }>) => {
+      const size = EXPORT_SIZES[sizeDropDown.get_selected()] || EXPORT_SIZES[1];
+      try {
+        targets.forEach((t) => renderPreviewSurface(t.schemes, size).writeToPNG(t.path));
+        showMessageDialog(
+          parentWindow,
+          Gtk.MessageType.INFO,
+          `Saved ${targets.map((t) => t.path).join(', ')}`,
+        );
+      } catch (e) {
+        showMessageDialog(parentWindow, Gtk.MessageType.ERROR, `Failed to export previews: ${e}`);
+      }
+    };
+
+    dialog.connect('response', (d: any, response: any) => {
+      try {
+        if (response === Gtk.ResponseType.ACCEPT) {
+          if (combinedCheck.get_active()) {
+            chooseSaveFile(parentWindow, 'Export previews', `${baseName}-branding.png`, (path) =>
+              writePngs([{ path, schemes: ['light', 'dark'] }]),
+            );
+          } else {
+            // Picking a folder gives no overwrite warning, so ask before
+            // replacing existing previews
+            chooseFolder(parentWindow, 'Export previews to folder', (dir) => {
+              const targets: Array<{ path: string; schemes: Array<'light' | 'dark'> }> = [
+                {
+                  path: GLib.build_filenamev([dir, `${baseName}-branding-light.png`]),
+                  schemes: ['light'],
+                },
+                {
+                  path: GLib.build_filenamev([dir, `${baseName}-branding-dark.png`]),
+                  schemes: ['dark'],
+                },
+              ];
+              confirmOverwrite(
+                parentWindow,
+                targets.map((t) => t.path),
+                () => writePngs(targets),
+              );
+            });
+          }
+        }
+      } catch (e) {}
+      try {
+        dialog.destroy();
+      } catch (e) {}
+    });
+    try {
+      dialog.show();
+    } catch (e) {
+      try {
+        dialog.present();
+      } catch (e) {}
+    }
+  } catch (e) {
+    log('Failed to show export dialog:', e);
+  }
+}
+
+// Preferences dialog: Flathub API base and icon host (saved to preferencesPath()),
+// and the download cache
+function showPreferencesDialog(parentWindow: any) {
+  try {
+    const dialog = new Gtk.Dialog({
+      transient_for: parentWindow || null,
+      modal: true,
+      title: 'Preferences',
+    });
+    try {
+      dialog.add_buttons('Cancel', Gtk.ResponseType.CANCEL, 'Save', Gtk.ResponseType.ACCEPT);
+    } catch (e) {}
+
+    const grid = new Gtk.Grid({ row_spacing: 8, column_spacing: 12 });
+    grid.set_margin_top(12);
+    grid.set_margin_bottom(12);
+    grid.set_margin_start(12);
+    grid.set_margin_end(12);
+    const apiEntry = new Gtk.Entry({ hexpand: true, placeholder_text: DEFAULT_FLATHUB_API_BASE });
+    apiEntry.set_text(readPreference('flathub', 'api-base') || '');
+    const iconHostEntry = new Gtk.Entry({
+      hexpand: true,
+      placeholder_text: DEFAULT_FLATHUB_ICON_HOST,
+    });
+    iconHostEntry.set_text(readPreference('flathub', 'icon-host') || '');
+    const note = new Gtk.Label({
+      label:
+        `http(s):// and file:// URLs are supported. ${FLATHUB_API_ENV} / ${FLATHUB_ICON_HOST_ENV} ` +
+        'and the --flathub-api / --icon-host options take precedence.',
+      wrap: true,
+      max_width_chars: 60,
+      xalign: 0,
+    });
+    try {
+      note.add_css_class('dim-label');
+    } catch (e) {}
+    grid.attach(new Gtk.Label({ label: 'Flathub API base:', xalign: 0 }), 0, 0, 1, 1);
+    grid.attach(apiEntry, 1, 0, 1, 1);
+    grid.attach(new Gtk.Label({ label: 'Icon host:', xalign: 0 }), 0, 1, 1, 1);
+    grid.attach(iconHostEntry, 1, 1, 1, 1);
+    grid.attach(note, 0, 2, 2, 1);
+    // Downloaded metadata and icons; clearing takes effect immediately, not on Save
+    const cacheBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 8 });
+    const clearCacheButton = new Gtk.Button({ label: 'Clear cache' });
+    const cacheLabel = new Gtk.Label({
+      label: cacheDir(),
+      hexpand: true,
+      xalign: 0,
+      wrap: true,
+      max_width_chars: 40,
+      selectable: true,
+    });
+    clearCacheButton.connect('clicked', () => {
+      const removed = clearCache();
+      cacheLabel.set_text(`Removed ${removed} cached file${removed === 1 ? '' : 's'}`);
+    });
+    cacheBox.append(cacheLabel);
+    cacheBox.append(clearCacheButton);
+    grid.attach(new Gtk.Label({ label: 'Cache:', xalign: 0 }), 0, 3, 1, 1);
+    grid.attach(cacheBox, 1, 3, 1, 1);
+    try {
+      dialog.get_content_area().append(grid);
+    } catch (e) {
+      try {
+        (dialog as any).set_child(grid);
+      } catch (e) {}
+    }
+
+    dialog.connect('response', (d: any, response: any) => {
+      try {
+        if (response === Gtk.ResponseType.ACCEPT) {
+          try {
+            writePreferences('flathub', {
+              'api-base': apiEntry.get_text(),
+              'icon-host': iconHostEntry.get_text(),
+            });
+          } catch (e) {
+            showMessageDialog(
+              parentWindow,
+              Gtk.MessageType.ERROR,
+              `Failed to save preferences to ${preferencesPath()}: ${e}`,
+            );
+          }
+        }
+      } catch (e) {}
+      try {
+        dialog.destroy();
+      } catch (e) {}
+    });
+    try {
+      dialog.show();
+    } catch (e) {
+      try {
+        dialog.present();
+      } catch (e) {}
+    }
+  } catch (e) {
+    log('Failed to show preferences:', e);
+  }
 }
 
-function handleFile(path: string, colorsBox: any, parentWindow?: any) {
-  // Clean up any previously downloaded temp files we created
+// Comparison view: run every registered analyzer on the current image and show
+// small light/dark previews with contrast numbers side by side. `onUse` is called
+// with the algorithm id when its "Use this one" button is clicked.
+function showComparisonWindow(parentWindow: any, onUse: (algorithm: string) => void) {
+  if (!currentImagePath) {
+    return;
+  }
+  let pixbuf: any = null;
+  let icon: any = null;
   try {
-    // Remove any previously-downloaded temp files, but do not delete the file
-    // we're about to open (path) if it is one of our temp files.
-    const keep: string[] = [];
-    for (let i = 0; i < tempFiles.length; i++) {
-      try {
-        const f = tempFiles[i];
-        if (f === path) {
-          // keep this one
-          keep.push(f);
-          continue;
-        }
+    pixbuf = loadAnalysisPixbuf(currentImagePath);
+    icon = GdkPixbuf.Pixbuf.new_from_file_at_scale(currentImagePath, 64, 64, true);
+  } catch (e) {
+    showMessageDialog(parentWindow, Gtk.MessageType.ERROR, `Failed to load ${currentImagePath}`);
+    return;
+  }
+
+  const win = new Gtk.Window({
+    transient_for: parentWindow || null,
+    default_width: 900,
+    default_height: 520,
+    title: 'Compare algorithms',
+  });
+  const flow = new Gtk.FlowBox({
+    selection_mode: Gtk.SelectionMode.NONE,
+    max_children_per_line: 4,
+    column_spacing: 12,
+    row_spacing: 12,
+    homogeneous: true,
+  });
+  flow.set_margin_top(12);
+  flow.set_margin_bottom(12);
+  flow.set_margin_start(12);
+  flow.set_margin_end(12);
+
+  const contrastText = (hex: string) =>
+    `${hex}\nW:${contrastRatio(hex, '#ffffff').toFixed(2)} B:${contrastRatio(
+      hex,
+      '#000000',
+    ).toFixed(2)}`;
+  for (let i = 0; i < ALGORITHMS.length; i++) {
+    const algo = ALGORITHMS[i];
+    const colors = analyzePixbufDispatch(pixbuf, algo.id, analysisRegion);
+    const card = new Gtk.Box({ orientation: Gtk.Orientation.VERTICAL, spacing: 6 });
+    const title = new Gtk.Label({ label: algo.label });
+    try {
+      title.add_css_class('heading');
+    } catch (e) {}
+    card.append(title);
+
+    const previews = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+    const schemes: Array<[string, string]> = [
+      ['Light', colors.light],
+      ['Dark', colors.dark],
+    ];
+    for (let j = 0; j < schemes.length; j++) {
+      const hex = schemes[j][1];
+      const column = new Gtk.Box({ orientation: Gtk.Orientation.VERTICAL, spacing: 4 });
+      const area = new Gtk.DrawingArea();
+      area.set_size_request(96, 96);
+      area.set_draw_func((a: any, cr: any, width: number, height: number) => {
         try {
-          GLib.unlink(f);
+          paintIconOnColor(cr, width, height, hex, icon);
         } catch (e) {}
+      });
+      area.set_tooltip_text(`${schemes[j][0]} ${hex}`);
+      column.append(area);
+      const label = new Gtk.Label({ label: contrastText(hex), justify: Gtk.Justification.CENTER });
+      try {
+        label.add_css_class('caption');
       } catch (e) {}
+      column.append(label);
+      previews.append(column);
     }
-    // restore any temp files we decided to keep (typically the current path)
-    tempFiles.length = 0;
-    for (let i = 0; i < keep.length; i++) {
+    card.append(previews);
+
+    const useButton = new Gtk.Button({ label: 'Use this one' });
+    useButton.connect('clicked', () => {
       try {
-        tempFiles.push(keep[i]);
+        onUse(algo.id);
       } catch (e) {}
-    }
-  } catch (e) {}
+    });
+    card.append(useButton);
+    flow.append(card);
+  }
+
+  const sw = new Gtk.ScrolledWindow({ vexpand: true, hexpand: true });
+  sw.set_child(flow);
+  win.set_child(sw);
+  win.present();
+}
 
+function handleFile(path: string, colorsBox: any, parentWindow?: any) {
+  // A selected region only applies to the image it was drawn on
+  if (path !== currentImagePath) {
+    analysisRegion = null;
+  }
   // Clear previous children from colorsBox in a robust, cross-version way.
   try {
     // Preferred: foreach method (older codepaths)
@@ -1334,57 +5507,37 @@ function handleFile(path: string, colorsBox: any, parentWindow?: any) {
   } catch (e) {}
 
   try {
-    // For SVGs, request a larger rasterization size so sampling yields good colors
-    const isSvg = typeof path === 'string' && path.match(/\.svgz?$/i);
-    const analysisSize = isSvg ? 512 : 256;
-    const pixbuf = GdkPixbuf.Pixbuf.new_from_file_at_scale(path, analysisSize, analysisSize, true);
-    const colors = analyzePixbufDispatch(pixbuf);
-
-    const lightColor = colors.light;
-    const darkColor = colors.dark;
-    const primaryColor = colors.primary;
+    const pixbuf = loadAnalysisPixbuf(path);
+    const colors = analyzePixbufDispatch(pixbuf, currentAlgorithm, analysisRegion);
+    currentAnalysisPixbuf = pixbuf;
+    suggestedColors = { primary: colors.primary, light: colors.light, dark: colors.dark };
+    currentColors = Object.assign({}, suggestedColors);
+    const algorithmUsed = currentAlgorithm;
 
-    const lightLabel = new Gtk.Label({ label: `Light: ${lightColor}` });
-    const darkLabel = new Gtk.Label({ label: `Dark: ${darkColor}` });
-    const algoUsedLabel = new Gtk.Label({ label: `Algorithm: ${currentAlgorithm}` });
-    colorsBox.append(lightLabel);
-    colorsBox.append(darkLabel);
+    colorLabelLight = new Gtk.Label({ label: `Light: ${colors.light}` });
+    colorLabelDark = new Gtk.Label({ label: `Dark: ${colors.dark}` });
+    const algoUsedLabel = new Gtk.Label({ label: `Algorithm: ${algorithmUsed}` });
+    colorsBox.append(colorLabelLight);
+    colorsBox.append(colorLabelDark);
     colorsBox.append(algoUsedLabel);
-
-    // Update previews background colors via CSS providers if available
-    try {
-      // Use the chosen primary branding color as the preview background so the
-      // image is shown on top of the brand color for both light/dark previews.
-      const cssPrimaryLight = `#preview-light { background-color: ${lightColor}; min-width: 300px; min-height: 300px; padding: 12px; }`;
-      const cssPrimaryDark = `#preview-dark { background-color: ${darkColor}; min-width: 300px; min-height: 300px; padding: 12px; }`;
-      try {
-        if (providerLight && providerLight.load_from_data) {
-          providerLight.load_from_data(cssPrimaryLight, -1);
-        }
-      } catch (e) {
-        console.log(e);
-      }
-      try {
-        if (providerDark && providerDark.load_from_data) {
-          providerDark.load_from_data(cssPrimaryDark, -1);
-        }
-      } catch (e) {
-        console.log(e);
-      }
-    } catch (e) {
-      // ignore
+    if (typeof colors.backgroundShare === 'number') {
+      const share = Math.round(colors.backgroundShare * 100);
+      colorsBox.append(
+        new Gtk.Label({
+          label: share > 0 ? `Background: ${share}% masked` : 'Background: none detected',
+        }),
+      );
+    }
+    if (analysisRegion) {
+      colorsBox.append(new Gtk.Label({ label: 'Region: selected area only' }));
     }
 
     // set images into the preview Image widgets if they exist (scale-and-crop to preview size)
     try {
       const previewSize = 300;
-      // If the image was downloaded to tmp by our downloader, avoid upscaling it.
-      const tmpDir = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-      const isTmpDownloaded =
-        typeof path === 'string' &&
-        path.indexOf(tmpDir) === 0 &&
-        path.indexOf('branding-picker-') >= 0;
-      const pb = getPreviewPixbuf(path, previewSize, !isTmpDownloaded);
+      // If the image was downloaded by our Flathub downloader, avoid upscaling it.
+      const isDownloaded = isDownloadedImage(path);
+      const pb = getPreviewPixbuf(path, previewSize, !isDownloaded);
       if (pb) {
         if (imageLight) {
           imageLight.set_from_pixbuf(pb);
@@ -1408,12 +5561,8 @@ function handleFile(path: string, colorsBox: any, parentWindow?: any) {
               ? previewFrameLight.get_allocated_height()
               : aw;
             const size = Math.max(32, Math.min(aw, ah) - padding * 2);
-            const tmpDirLocal = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-            const isTmp =
-              typeof path === 'string' &&
-              path.indexOf(tmpDirLocal) === 0 &&
-              path.indexOf('branding-picker-') >= 0;
-            const pb2 = getPreviewPixbuf(path, size, !isTmp);
+            const isDownloaded = isDownloadedImage(path);
+            const pb2 = getPreviewPixbuf(path, size, !isDownloaded);
             if (pb2) {
               if (imageLight) {
                 imageLight.set_from_pixbuf(pb2);
@@ -1458,39 +5607,45 @@ function handleFile(path: string, colorsBox: any, parentWindow?: any) {
       } catch (e) {}
     }
 
-    const snippet = `<branding>\n  <color type=\"primary\" scheme_preference=\"light\">${lightColor}</color>\n  <color type=\"primary\" scheme_preference=\"dark\">${darkColor}</color>\n</branding>`;
-
+    // The copy actions read currentColors so they follow the selected candidate
     const copyButton = new Gtk.Button({ label: 'Copy AppStream branding XML' });
-    copyButton.connect('clicked', () => copyToClipboard(snippet, parentWindow));
+    copyButton.connect('clicked', () => {
+      if (currentColors) {
+        copyToClipboard(brandingSnippet(currentColors.light, currentColors.dark), parentWindow);
+      }
+    });
     colorsBox.append(copyButton);
 
-    // Update overlay labels and show preview and colors area now that an image loaded
-    try {
-      // small helper to escape markup
-      const escapeMarkup = (s: string) =>
-        s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const copyJsonButton = new Gtk.Button({ label: 'Copy as JSON' });
+    copyJsonButton.connect('clicked', () => {
+      const result: any = buildAnalysisResult(path, algorithmUsed, colors);
+      if (currentColors) {
+        result.primary = describeColor(currentColors.primary);
+        result.light = describeColor(currentColors.light);
+        result.dark = describeColor(currentColors.dark);
+        result.visibility = {
+          light: iconVisibility(pixbuf, currentColors.light),
+          dark: iconVisibility(pixbuf, currentColors.dark),
+        };
+      }
+      copyToClipboard(JSON.stringify(result, null, 2), parentWindow);
+    });
+    colorsBox.append(copyJsonButton);
 
-      // overlay labels: show color hex and contrast vs white/black
-      try {
-        if (overlayLabelLight) {
-          const contrastWithWhite = contrastRatio(lightColor, '#ffffff').toFixed(2);
-          const contrastWithBlack = contrastRatio(lightColor, '#000000').toFixed(2);
-          const text = `${lightColor} (W:${contrastWithWhite}, B:${contrastWithBlack})`;
-          try {
-            overlayLabelLight.set_text(text);
-          } catch (e) {}
-        }
-      } catch (e) {}
-      try {
-        if (overlayLabelDark) {
-          const contrastWithWhite = contrastRatio(darkColor, '#ffffff').toFixed(2);
-          const contrastWithBlack = contrastRatio(darkColor, '#000000').toFixed(2);
-          const text = `${darkColor} (W:${contrastWithWhite}, B:${contrastWithBlack})`;
-          try {
-            overlayLabelDark.set_text(text);
-          } catch (e) {}
-        }
-      } catch (e) {}
+    const applyMetainfoButton = new Gtk.Button({ label: 'Apply to metainfo…' });
+    applyMetainfoButton.connect('clicked', () => applyColorsToMetainfoFile(parentWindow));
+    colorsBox.append(applyMetainfoButton);
+
+    const exportPreviewsButton = new Gtk.Button({ label: 'Export previews…' });
+    exportPreviewsButton.connect('clicked', () => showExportPreviewsDialog(parentWindow));
+    colorsBox.append(exportPreviewsButton);
+
+    updateBrandingDisplay();
+    populateCandidates(colors.candidates);
+    try {
+      if (colorEditorsBox) {
+        colorEditorsBox.set_visible(true);
+      }
     } catch (e) {}
 
     // Show preview and colors area now that an image loaded
@@ -1518,6 +5673,15 @@ function handleFile(path: string, colorsBox: any, parentWindow?: any) {
     } catch (e) {}
   } catch (e) {
     console.log('Error loading image: ' + e);
+    currentAnalysisPixbuf = null;
+    try {
+      if (candidatesBox) {
+        candidatesBox.set_visible(false);
+      }
+      if (colorEditorsBox) {
+        colorEditorsBox.set_visible(false);
+      }
+    } catch (e) {}
     // Hide previews/colors on error or if image couldn't be loaded
     try {
       if (previewsContainer) {
@@ -1540,6 +5704,196 @@ function handleFile(path: string, colorsBox: any, parentWindow?: any) {
   }
 }
 
+// Attach a search popover to the Flathub app entry: typing searches Flathub (after a
+// short pause) and lists the matching apps with name, developer and icon; choosing
+// one calls `onChosen(appId)`. URLs are not searched, since Enter loads them
+// directly; anything else (including a partly typed app ID) is, and Enter still loads
+// the typed text. The popover closes when the focus leaves the entry and the results.
+function attachAppSearch(entry: any, onChosen: (appId: string) => void) {
+  try {
+    const popover = new Gtk.Popover({
+      autohide: false,
+      has_arrow: false,
+      position: Gtk.PositionType.BOTTOM,
+    });
+    popover.set_parent(entry);
+    const status = new Gtk.Label({ xalign: 0 });
+    try {
+      status.add_css_class('dim-label');
+    } catch (e) {}
+    const list = new Gtk.ListBox({ selection_mode: Gtk.SelectionMode.BROWSE });
+    const scrolled = new Gtk.ScrolledWindow({
+      hscrollbar_policy: Gtk.PolicyType.NEVER,
+      max_content_height: 360,
+      propagate_natural_height: true,
+    });
+    scrolled.set_child(list);
+    const content = new Gtk.Box({ orientation: Gtk.Orientation.VERTICAL, spacing: 6 });
+    content.set_size_request(320, -1);
+    content.append(status);
+    content.append(scrolled);
+    popover.set_child(content);
+
+    let debounceId = 0;
+    let searchCancellable: any = null;
+    // Set while the entry text is replaced by a chosen app ID
+    let choosing = false;
+    const setStatus = (text: string) => {
+      status.set_text(text);
+      status.set_visible(!!text);
+    };
+    const clearList = () => {
+      let child = list.get_first_child();
+      while (child) {
+        const next = child.get_next_sibling();
+        list.remove(child);
+        child = next;
+      }
+    };
+    // Stop the pending and the running search (and its thumbnail downloads)
+    const stop = () => {
+      if (debounceId) {
+        GLib.source_remove(debounceId);
+        debounceId = 0;
+      }
+      if (searchCancellable) {
+        searchCancellable.cancel();
+        searchCancellable = null;
+      }
+    };
+    const hide = () => {
+      stop();
+      popover.popdown();
+    };
+
+    const showHits = (hits: FlathubSearchHit[], cancellable: any) => {
+      clearList();
+      hits.forEach((hit) => {
+        const rowBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 8 });
+        const image = new Gtk.Image({ icon_name: 'application-x-executable', pixel_size: 32 });
+        rowBox.append(image);
+        const texts = new Gtk.Box({ orientation: Gtk.Orientation.VERTICAL, spacing: 2 });
+        texts.append(new Gtk.Label({ label: hit.name, xalign: 0 }));
+        const developer = new Gtk.Label({ label: hit.developer || hit.appId, xalign: 0 });
+        try {
+          developer.add_css_class('dim-label');
+          developer.add_css_class('caption');
+        } catch (e) {}
+        texts.append(developer);
+        rowBox.append(texts);
+        const row = new Gtk.ListBoxRow();
+        row.set_child(rowBox);
+        row.set_tooltip_text(hit.appId);
+        (row as any)._appId = hit.appId;
+        list.append(row);
+        // Thumbnails come through the icon cache, so reopening an app is instant
+        if (hit.icon) {
+          downloadIconAsync(hit.icon, cancellable, (error, path) => {
+            if (error || !path) {
+              return;
+            }
+            try {
+              image.set_from_pixbuf(GdkPixbuf.Pixbuf.new_from_file_at_scale(path, 32, 32, true));
+            } catch (e) {}
+          });
+        }
+      });
+      setStatus(hits.length ? '' : 'No apps found');
+    };
+
+    const search = (query: string) => {
+      const cancellable = new Gio.Cancellable();
+      searchCancellable = cancellable;
+      clearList();
+      setStatus('Searching…');
+      popover.popup();
+      searchFlathubAsync(query, cancellable, (error, hits) => {
+        if (cancellable.is_cancelled()) {
+          return;
+        }
+        if (error) {
+          setStatus(`Search failed: ${error}`);
+          return;
+        }
+        showHits(hits, cancellable);
+      });
+    };
+
+    entry.connect('changed', () => {
+      if (choosing) {
+        return;
+      }
+      stop();
+      const query = entry.get_text().trim();
+      if (query.length < 2 || /[/:]/.test(query)) {
+        popover.popdown();
+        return;
+      }
+      debounceId = GLib.timeout_add(GLib.PRIORITY_DEFAULT, SEARCH_DEBOUNCE_MS, () => {
+        debounceId = 0;
+        search(query);
+        return GLib.SOURCE_REMOVE;
+      });
+    });
+    // Enter loads the typed app ID directly
+    entry.connect('activate', () => hide());
+
+    // Close once the focus is neither in the entry nor in the results; checked
+    // from an idle callback because moving into the list leaves the entry first
+    const entryFocus = new Gtk.EventControllerFocus();
+    const listFocus = new Gtk.EventControllerFocus();
+    const closeUnlessFocused = () => {
+      GLib.idle_add(GLib.PRIORITY_DEFAULT_IDLE, () => {
+        if (!entryFocus.get_contains_focus() && !listFocus.get_contains_focus()) {
+          hide();
+        }
+        return GLib.SOURCE_REMOVE;
+      });
+    };
+    entryFocus.connect('leave', closeUnlessFocused);
+    listFocus.connect('leave', closeUnlessFocused);
+    entry.add_controller(entryFocus);
+    content.add_controller(listFocus);
+
+    list.connect('row-activated', (l: any, row: any) => {
+      const appId = row ? (row as any)._appId : null;
+      if (!appId) {
+        return;
+      }
+      hide();
+      choosing = true;
+      try {
+        entry.set_text(appId);
+      } catch (e) {}
+      choosing = false;
+      onChosen(appId);
+    });
+
+    // Down moves into the results, Escape closes them
+    const keys = new Gtk.EventControllerKey();
+    keys.connect('key-pressed', (controller: any, keyval: number) => {
+      if (!popover.get_visible()) {
+        return false;
+      }
+      if (keyval === Gdk.KEY_Escape) {
+        hide();
+        return true;
+      }
+      if (keyval === Gdk.KEY_Down) {
+        const first = list.get_row_at_index(0);
+        if (first) {
+          first.grab_focus();
+          return true;
+        }
+      }
+      return false;
+    });
+    entry.add_controller(keys);
+  } catch (e) {
+    log('Failed to set up app search:', e);
+  }
+}
+
 function createApp() {
   let window: any = null;
   const app = new Gtk.Application({
@@ -1590,7 +5944,7 @@ function createApp() {
       // we will fetch the AppStream metadata from Flathub and download the icon.
       const appEntry = new Gtk.Entry({
         hexpand: true,
-        placeholder_text: 'Flathub URL or appId (e.g. org.gnome.Glade)',
+        placeholder_text: 'Search Flathub, or enter a URL or appId (e.g. org.gnome.Glade)',
       });
 
       // Box for clickable links (homepage, contribution, manifest) from appstream metadata
@@ -1752,371 +6106,177 @@ function createApp() {
         }
       };
 
-      // Helper: extract appId from a Flathub URL or treat the input as an appId
-      const extractAppIdFromInput = (input: string) => {
-        try {
-          if (!input) {
-            return null;
-          }
-          try {
-            // Trim
-            input = input.trim();
-          } catch (e) {}
-          try {
-            // If the user pasted a full URL, attempt to parse the last path segment
-            const m = input.match(/https?:\/\/[^\/]*flathub\.org\/[^\/]*\/apps\/(.+)$/i);
-            if (m && m[1]) {
-              // remove any trailing slash
-              let id = m[1].replace(/\/+$/, '');
-              return id;
-            }
-          } catch (e) {}
-          try {
-            // Also accept short URLs like /en/apps/com.usebottles.bottles
-            const m2 = input.match(/flathub\.org\/.+\/apps\/(.+)$/i);
-            if (m2 && m2[1]) {
-              return m2[1].replace(/\/+$/, '');
-            }
-          } catch (e) {}
-          // Otherwise assume the input is the appId itself
-          return input;
-        } catch (e) {
-          return null;
-        }
-      };
-
-      // Helper: fetch AppStream JSON for an appId. Try libsoup first, fall back to curl.
-      const fetchAppstream = (appId: string) => {
+      // Progress of the Flathub fetch: a spinner and a button that cancels it
+      const fetchSpinner = new Gtk.Spinner();
+      fetchSpinner.set_visible(false);
+      const cancelFetchButton = new Gtk.Button({ label: 'Cancel' });
+      cancelFetchButton.set_tooltip_text('Stop fetching from Flathub');
+      cancelFetchButton.set_visible(false);
+      let fetchCancellable: any = null;
+      const setFetching = (cancellable: any) => {
+        fetchCancellable = cancellable;
+        const busy = !!cancellable;
         try {
-          if (!appId) {
-            return null;
+          fetchSpinner.set_visible(busy);
+          if (busy) {
+            fetchSpinner.start();
+          } else {
+            fetchSpinner.stop();
           }
-          const url = `https://flathub.org/api/v2/appstream/${encodeURIComponent(appId)}`;
-          // Try libsoup if available
-          try {
-            if (typeof imports !== 'undefined' && imports.gi && imports.gi.Soup) {
-              const SoupLocal = imports.gi.Soup;
-              try {
-                // libsoup2 and libsoup3 have slightly different APIs; try both conservatively
-                let session: any = null;
-                try {
-                  if (SoupLocal.Session) {
-                    // libsoup2/3 compatible creation
-                    try {
-                      session = SoupLocal.Session.new();
-                    } catch (e) {
-                      try {
-                        session = new SoupLocal.Session();
-                      } catch (e) {
-                        session = null;
-                      }
-                    }
-                  }
-                } catch (e) {}
-                if (session) {
-                  try {
-                    const msg = SoupLocal.Message.new('GET', url);
-                    try {
-                      session.send_message(msg);
-                    } catch (e) {
-                      try {
-                        // some Session variants use send_message_sync
-                        if (typeof session.send_message_sync === 'function') {
-                          session.send_message_sync(msg);
-                        }
-                      } catch (e) {}
-                    }
-                    if (msg && (msg as any).status_code === 200) {
-                      try {
-                        // response_body may be a string or a GLib.Bytes-like object
-                        const body =
-                          (msg as any).response_body && (msg as any).response_body.data
-                            ? (msg as any).response_body.data
-                            : (msg as any).response_body || null;
-                        if (body) {
-                          try {
-                            const txt = typeof body === 'string' ? body : body.toString();
-                            return JSON.parse(txt);
-                          } catch (e) {}
-                        }
-                      } catch (e) {}
-                    }
-                  } catch (e) {}
-                }
-              } catch (e) {}
-            }
-          } catch (e) {}
-
-          // Fallback: use curl via Gio.Subprocess to fetch JSON
-          try {
-            const argv = ['curl', '-fsSL', url];
-            const proc = new Gio.Subprocess({
-              argv: argv,
-              flags: Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_PIPE,
-            });
-            try {
-              proc.init(null);
-            } catch (e) {}
-            try {
-              const [ok, out, err] = proc.communicate_utf8(null, null);
-              if (ok && out) {
-                try {
-                  return JSON.parse(out as string);
-                } catch (e) {}
-              }
-            } catch (e) {}
-          } catch (e) {}
+          cancelFetchButton.set_visible(busy);
         } catch (e) {}
-        return null;
       };
+      cancelFetchButton.connect('clicked', () => {
+        if (fetchCancellable) {
+          fetchCancellable.cancel();
+        }
+      });
 
-      // Helper: download a URL to a temporary file and return the path, or null on failure
-      const downloadUrlToTemp = (url: string) => {
-        try {
-          if (!url) {
-            return null;
+      // Start a Flathub fetch, cancelling the running one. `fail(error, text)` reports a
+      // failed step unless the fetch was cancelled (by the user or by a newer fetch).
+      const beginFetch = () => {
+        if (fetchCancellable) {
+          fetchCancellable.cancel();
+        }
+        const cancellable = new Gio.Cancellable();
+        setFetching(cancellable);
+        const fail = (error: string, text: string) => {
+          if (fetchCancellable === cancellable) {
+            setFetching(null);
           }
-          try {
-            // If URL is relative, make absolute against flathub.org
-            if (url.indexOf('://') < 0 && url.charAt(0) === '/') {
-              url = 'https://flathub.org' + url;
-            }
-          } catch (e) {}
-
-          // Prefer libsoup download if present so we don't rely on external tools
-          try {
-            if (typeof imports !== 'undefined' && imports.gi && imports.gi.Soup) {
-              const SoupLocal = imports.gi.Soup;
-              try {
-                let session: any = null;
-                try {
-                  session = SoupLocal.Session.new();
-                } catch (e) {
-                  try {
-                    session = new SoupLocal.Session();
-                  } catch (e) {
-                    session = null;
-                  }
-                }
-                if (session) {
-                  try {
-                    const msg = SoupLocal.Message.new('GET', url);
-                    try {
-                      session.send_message(msg);
-                    } catch (e) {
-                      try {
-                        if (typeof session.send_message_sync === 'function') {
-                          session.send_message_sync(msg);
-                        }
-                      } catch (e) {}
-                    }
-                    if (msg && (msg as any).status_code === 200) {
-                      try {
-                        const body =
-                          (msg as any).response_body && (msg as any).response_body.data
-                            ? (msg as any).response_body.data
-                            : (msg as any).response_body || null;
-                        if (body) {
-                          try {
-                            const tmpDir = GLib.get_tmp_dir();
-                            const extMatch = url.match(/\.([a-z0-9]+)(?:[?#]|$)/i);
-                            const ext = extMatch ? '.' + extMatch[1] : '.img';
-                            const tmpPath = `${tmpDir}/branding-picker-${Date.now()}${ext}`;
-                            try {
-                              // body may be a string or a Bytes-like object
-                              const data = typeof body === 'string' ? body : body.toString();
-                              GLib.file_set_contents(tmpPath, data);
-                              return tmpPath;
-                            } catch (e) {}
-                          } catch (e) {}
-                        }
-                      } catch (e) {}
-                    }
-                  } catch (e) {}
-                }
-              } catch (e) {}
-            }
-          } catch (e) {}
-
-          // Fallback: use curl to write directly to a temp file
-          try {
-            const tmpDir = GLib.get_tmp_dir();
-            const extMatch = url.match(/\.([a-z0-9]+)(?:[?#]|$)/i);
-            const ext = extMatch ? '.' + extMatch[1] : '.img';
-            const tmpPath = `${tmpDir}/branding-picker-${Date.now()}${ext}`;
-            const argv = ['curl', '-fsSL', '-o', tmpPath, url];
-            try {
-              const proc = new Gio.Subprocess({
-                argv: argv,
-                flags: Gio.SubprocessFlags.STDOUT_PIPE | Gio.SubprocessFlags.STDERR_PIPE,
-              });
-              try {
-                proc.init(null);
-              } catch (e) {}
-              try {
-                const [ok, out, err] = proc.communicate_utf8(null, null);
-                // if curl exits successfully, return path
-                if (ok) {
-                  return tmpPath;
-                }
-              } catch (e) {}
-            } catch (e) {}
-          } catch (e) {}
-        } catch (e) {}
-        return null;
+          if (error !== 'cancelled') {
+            showMessageDialog(window, Gtk.MessageType.ERROR, `${text}: ${error}`);
+          }
+        };
+        return { cancellable, fail };
       };
 
-      // Handler: when the entry is activated (Enter), attempt to fetch the app icon
-      appEntry.connect('activate', () => {
-        try {
-          const raw = appEntry.get_text ? appEntry.get_text() : null;
-          const appId = extractAppIdFromInput(raw);
-          if (!appId) {
-            try {
-              // present a small dialog to inform user
-              const d = new Gtk.MessageDialog({
-                transient_for: window,
-                modal: true,
-                message_type: Gtk.MessageType.INFO,
-                buttons: Gtk.ButtonsType.OK,
-                text: 'Please enter a Flathub appId or URL',
-              });
-              try {
-                d.connect('response', () => {
-                  try {
-                    d.destroy();
-                  } catch (e) {}
-                });
-              } catch (e) {}
-              try {
-                d.show();
-              } catch (e) {
-                try {
-                  d.present();
-                } catch (e) {}
-              }
-            } catch (e) {}
+      // Download an icon of a Flathub app (through the cache) and analyze it. When
+      // it cannot be downloaded or decoded, the next (smaller) icon is tried and
+      // selected in the drop-down. For a newly loaded app, `app` holds its metadata
+      // and icons; they replace the shown app's only once an icon is analyzed, so a
+      // failed fetch keeps the links and published branding of the app on screen.
+      const showAppIcon = (
+        appId: string,
+        icon: FlathubIcon,
+        cancellable: any,
+        fail: (error: string, text: string) => void,
+        app?: { meta: any; icons: FlathubIcon[] },
+      ) => {
+        let icons = [icon];
+        if (app) {
+          icons = app.icons;
+        } else if (appIconsAppId === appId) {
+          icons = appIcons.slice(Math.max(0, appIcons.indexOf(icon)));
+        }
+        downloadFirstIconAsync(icons, cancellable, (dlError, iconPath, used) => {
+          if (!dlError && cancellable.is_cancelled()) {
+            dlError = 'cancelled';
+          }
+          if (dlError || !iconPath) {
+            fail(dlError || 'no data', `Failed to download icon for ${appId}`);
             return;
           }
-
-          // fetch metadata
-          try {
-            const meta = fetchAppstream(appId as string);
-            if (!meta) {
-              try {
-                const d2 = new Gtk.MessageDialog({
-                  transient_for: window,
-                  modal: true,
-                  message_type: Gtk.MessageType.ERROR,
-                  buttons: Gtk.ButtonsType.OK,
-                  text: `Failed to fetch metadata for ${appId}`,
-                });
-                try {
-                  d2.connect('response', () => {
-                    try {
-                      d2.destroy();
-                    } catch (e) {}
-                  });
-                } catch (e) {}
-                try {
-                  d2.show();
-                } catch (e) {
-                  try {
-                    d2.present();
-                  } catch (e) {}
-                }
-              } catch (e) {}
-              return;
-            }
-
+          setFetching(null);
+          if (app) {
             // Store metadata and update links
-            currentMetadata = meta;
-            updateLinksFromMetadata(meta);
-
-            // find icon URL
-            let iconUrl: string | null = null;
-            try {
-              if (meta.icons && Array.isArray(meta.icons) && meta.icons.length > 0) {
-                for (let i = 0; i < meta.icons.length; i++) {
-                  try {
-                    if (meta.icons[i] && meta.icons[i].url) {
-                      iconUrl = meta.icons[i].url;
-                      break;
-                    }
-                  } catch (e) {}
-                }
-              }
-            } catch (e) {}
-            try {
-              if (!iconUrl && meta.icon) {
-                iconUrl = meta.icon;
-              }
-            } catch (e) {}
-
-            if (!iconUrl) {
-              try {
-                const d3 = new Gtk.MessageDialog({
-                  transient_for: window,
-                  modal: true,
-                  message_type: Gtk.MessageType.INFO,
-                  buttons: Gtk.ButtonsType.OK,
-                  text: `No icon URL found for ${appId}`,
-                });
-                try {
-                  d3.connect('response', () => {
-                    try {
-                      d3.destroy();
-                    } catch (e) {}
-                  });
-                } catch (e) {}
-                try {
-                  d3.show();
-                } catch (e) {
-                  try {
-                    d3.present();
-                  } catch (e) {}
-                }
-              } catch (e) {}
-              return;
-            }
-
-            // download icon to temp file
-            try {
-              const tmpPath = downloadUrlToTemp(iconUrl as string);
-              if (tmpPath) {
-                // record temp file so we can clean it up later
-                try {
-                  tempFiles.push(tmpPath);
-                } catch (e) {}
-                handleFile(tmpPath, colorsBox, window);
-              } else {
-                try {
-                  const d4 = new Gtk.MessageDialog({
-                    transient_for: window,
-                    modal: true,
-                    message_type: Gtk.MessageType.ERROR,
-                    buttons: Gtk.ButtonsType.OK,
-                    text: `Failed to download icon for ${appId}`,
-                  });
-                  try {
-                    d4.connect('response', () => {
-                      try {
-                        d4.destroy();
-                      } catch (e) {}
-                    });
-                  } catch (e) {}
-                  try {
-                    d4.show();
-                  } catch (e) {
-                    try {
-                      d4.present();
-                    } catch (e) {}
-                  }
-                } catch (e) {}
-              }
-            } catch (e) {}
-          } catch (e) {}
+            currentMetadata = app.meta;
+            updateLinksFromMetadata(app.meta);
+            updateIconChoices(appId, app.icons);
+          }
+          if (used && used !== icon) {
+            selectIconChoice(used);
+          }
+          handleFile(iconPath, colorsBox, window);
+        });
+      };
+
+      // Icons listed in the loaded app's metadata, best first. The drop-down shows
+      // which one was analyzed and switches to another size.
+      let appIcons: FlathubIcon[] = [];
+      let appIconsAppId = '';
+      let updatingIconChoice = false;
+      const iconChoice = Gtk.DropDown.new_from_strings([]);
+      const iconChoiceBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
+      iconChoiceBox.append(new Gtk.Label({ label: 'Icon:' }));
+      iconChoiceBox.append(iconChoice);
+      iconChoiceBox.set_visible(false);
+      const updateIconChoices = (appId: string, icons: FlathubIcon[]) => {
+        appIcons = icons;
+        appIconsAppId = appId;
+        updatingIconChoice = true;
+        try {
+          iconChoice.set_model(Gtk.StringList.new(icons.map((icon) => flathubIconLabel(icon))));
+          iconChoice.set_selected(0);
+          iconChoice.set_tooltip_text(icons.length ? resolveIconUrl(icons[0].url) : null);
+        } catch (e) {}
+        updatingIconChoice = false;
+        iconChoice.set_sensitive(icons.length > 1);
+        iconChoiceBox.set_visible(icons.length > 0);
+      };
+      const selectIconChoice = (icon: FlathubIcon) => {
+        updatingIconChoice = true;
+        try {
+          iconChoice.set_selected(appIcons.indexOf(icon));
+          iconChoice.set_tooltip_text(resolveIconUrl(icon.url));
         } catch (e) {}
+        updatingIconChoice = false;
+      };
+      iconChoice.connect('notify::selected', () => {
+        const icon = appIcons[iconChoice.get_selected()];
+        if (updatingIconChoice || !icon) {
+          return;
+        }
+        try {
+          iconChoice.set_tooltip_text(resolveIconUrl(icon.url));
+        } catch (e) {}
+        const { cancellable, fail } = beginFetch();
+        showAppIcon(appIconsAppId, icon, cancellable, fail);
+      });
+
+      // Fetch the AppStream metadata of a Flathub app, download its icon and analyze
+      // it, without blocking the window. Starting a new fetch cancels the running one.
+      const loadFlathubApp = (input: string) => {
+        const appId = extractAppIdFromInput(input);
+        if (!appId) {
+          showMessageDialog(window, Gtk.MessageType.INFO, 'Please enter a Flathub appId or URL');
+          return;
+        }
+        const { cancellable, fail } = beginFetch();
+
+        fetchAppstreamAsync(appId, cancellable, (error, meta) => {
+          if (!error && cancellable.is_cancelled()) {
+            error = 'cancelled';
+          }
+          if (error || !meta) {
+            fail(error || 'empty response', `Failed to fetch metadata for ${appId}`);
+            return;
+          }
+          const icons = flathubIcons(meta);
+          if (!icons.length) {
+            setFetching(null);
+            showMessageDialog(window, Gtk.MessageType.INFO, `No icon URL found for ${appId}`);
+            return;
+          }
+          showAppIcon(appId, icons[0], cancellable, fail, { meta, icons });
+        });
+      };
+
+      // Handler: when the entry is activated (Enter), fetch the app icon
+      appEntry.connect('activate', () => {
+        try {
+          loadFlathubApp(appEntry.get_text());
+        } catch (e) {
+          log('Failed to load Flathub app:', e);
+        }
+      });
+      // Typing a name offers matching Flathub apps
+      attachAppSearch(appEntry, (appId: string) => {
+        try {
+          loadFlathubApp(appId);
+        } catch (e) {
+          log('Failed to load Flathub app:', e);
+        }
       });
 
       // Make the Open button accept drops so it doubles as the drop target
@@ -2136,6 +6296,7 @@ function createApp() {
                 // Clear metadata and hide links when opening file directly
                 currentMetadata = null;
                 updateLinksFromMetadata(null);
+                updateIconChoices('', []);
                 handleFile(path, colorsBox, window);
               }
             } catch (e) {
@@ -2174,6 +6335,7 @@ function createApp() {
                 // Clear metadata and hide links when opening file directly
                 currentMetadata = null;
                 updateLinksFromMetadata(null);
+                updateIconChoices('', []);
                 handleFile(path, colorsBox, window);
               }
             });
@@ -2207,6 +6369,7 @@ function createApp() {
               // Clear metadata and hide links when opening file directly
               currentMetadata = null;
               updateLinksFromMetadata(null);
+              updateIconChoices('', []);
               handleFile(path, colorsBox, window);
             }
             dialog.destroy();
@@ -2233,6 +6396,30 @@ function createApp() {
           controlBox.add(appEntry);
         } catch (e) {}
       }
+      controlBox.append(fetchSpinner);
+      controlBox.append(cancelFetchButton);
+      controlBox.append(iconChoiceBox);
+
+      const offlineCheck = new Gtk.CheckButton({ label: 'Offline', active: offlineMode });
+      offlineCheck.set_tooltip_text(
+        `Load Flathub metadata and icons from the cache only (${cacheDir()})`,
+      );
+      offlineCheck.connect('toggled', () => {
+        offlineMode = offlineCheck.get_active();
+      });
+      controlBox.append(offlineCheck);
+
+      const lintButton = new Gtk.Button({ label: 'Lint metainfo…' });
+      lintButton.connect('clicked', () => lintMetainfoFile(window));
+      controlBox.append(lintButton);
+
+      const batchButton = new Gtk.Button({ label: 'Batch…' });
+      batchButton.connect('clicked', () => showBatchWindow(window));
+      controlBox.append(batchButton);
+
+      const preferencesButton = new Gtk.Button({ label: 'Preferences…' });
+      preferencesButton.connect('clicked', () => showPreferencesDialog(window));
+      controlBox.append(preferencesButton);
 
       // Algorithm selector buttons (allow quick switching between extraction algorithms)
       const algoBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 6 });
@@ -2261,21 +6448,78 @@ function createApp() {
         return b;
       };
 
-      try {
-        algoBox.append(makeAlgoButton('kmeans', 'K-Means'));
-        algoBox.append(makeAlgoButton('hsl-shift', 'HSL Shift'));
-        algoBox.append(makeAlgoButton('complementary', 'Complement'));
-        algoBox.append(makeAlgoButton('contrast-max', 'Contrast-max'));
-        algoBox.append(makeAlgoButton('vivid', 'Vivid'));
-        algoBox.append(makeAlgoButton('average', 'Average'));
-      } catch (e) {
+      for (let i = 0; i < ALGORITHMS.length; i++) {
         try {
-          algoBox.add(makeAlgoButton('kmeans', 'K-Means'));
-          algoBox.add(makeAlgoButton('hsl-shift', 'HSL Shift'));
-          algoBox.add(makeAlgoButton('complementary', 'Complement'));
-        } catch (e) {}
+          algoBox.append(makeAlgoButton(ALGORITHMS[i].id, ALGORITHMS[i].label));
+        } catch (e) {
+          try {
+            algoBox.add(makeAlgoButton(ALGORITHMS[i].id, ALGORITHMS[i].label));
+          } catch (e) {}
+        }
       }
 
+      // Compare every algorithm on the current image side by side
+      const compareButton = new Gtk.Button({ label: 'Compare all…' });
+      compareButton.connect('clicked', () =>
+        showComparisonWindow(window, (id: string) => {
+          currentAlgorithm = id;
+          if (currentImagePath && colorsBox) {
+            handleFile(currentImagePath, colorsBox, window);
+          }
+        }),
+      );
+      algoBox.append(compareButton);
+
+      // Target-contrast derivation: search the variants' lightness until they reach
+      // the chosen contrast against the banner text color
+      const contrastCheck = new Gtk.CheckButton({ label: 'Target contrast' });
+      contrastCheck.set_tooltip_text(
+        'Derive light/dark variants that reach this contrast against the banner text',
+      );
+      const contrastSpin = Gtk.SpinButton.new_with_range(1, 21, 0.5);
+      contrastSpin.set_digits(1);
+      contrastSpin.set_value(targetContrast);
+      const rerunAnalysis = () => {
+        if (currentImagePath && colorsBox) {
+          handleFile(currentImagePath, colorsBox, window);
+        }
+      };
+      contrastCheck.connect('toggled', () => {
+        derivationMode = contrastCheck.get_active() ? 'contrast' : 'delta';
+        rerunAnalysis();
+      });
+      contrastSpin.connect('value-changed', () => {
+        targetContrast = contrastSpin.get_value();
+        if (derivationMode === 'contrast') {
+          rerunAnalysis();
+        }
+      });
+      algoBox.append(contrastCheck);
+      algoBox.append(contrastSpin);
+
+      // Background detection: mask an opaque backdrop before analysis, and
+      // optionally highlight what was masked on the previews
+      const backgroundCheck = new Gtk.CheckButton({ label: 'Detect background' });
+      backgroundCheck.set_tooltip_text(
+        'Exclude an opaque backdrop (found by flood fill from the image border) from analysis',
+      );
+      const maskCheck = new Gtk.CheckButton({ label: 'Show mask' });
+      maskCheck.set_tooltip_text('Highlight the detected backdrop on the previews');
+      maskCheck.set_sensitive(false);
+      backgroundCheck.connect('toggled', () => {
+        detectBackground = backgroundCheck.get_active();
+        maskCheck.set_sensitive(detectBackground);
+        showBackgroundMask = detectBackground && maskCheck.get_active();
+        queuePreviewRedraw();
+        rerunAnalysis();
+      });
+      maskCheck.connect('toggled', () => {
+        showBackgroundMask = detectBackground && maskCheck.get_active();
+        queuePreviewRedraw();
+      });
+      algoBox.append(backgroundCheck);
+      algoBox.append(maskCheck);
+
       // Do not append algoBox to controlBox; it will be placed on its own line below
 
       const colorsBox = new Gtk.Box({
@@ -2283,6 +6527,97 @@ function createApp() {
         spacing: 8,
       });
 
+      // Ranked candidate palettes; activating a row makes it the current branding
+      candidatesBox = new Gtk.ListBox();
+      try {
+        candidatesBox.set_selection_mode(Gtk.SelectionMode.SINGLE);
+        candidatesBox.add_css_class('boxed-list');
+      } catch (e) {}
+      candidatesBox.connect('row-activated', (list: any, row: any) => {
+        try {
+          const c = row ? (row as any)._candidate : null;
+          if (c) {
+            currentColors = { primary: c.primary, light: c.light, dark: c.dark };
+            updateBrandingDisplay();
+          }
+        } catch (e) {}
+      });
+      candidatesBox.set_visible(false);
+
+      // Manual override: color buttons and hex entries per scheme, plus reset
+      colorEditorsBox = new Gtk.Box({ orientation: Gtk.Orientation.HORIZONTAL, spacing: 12 });
+      colorEditorsBox.append(createSchemeColorEditor('light', 'Light'));
+      colorEditorsBox.append(createSchemeColorEditor('dark', 'Dark'));
+      const eyedropperButton = new Gtk.ToggleButton({ label: 'Eyedropper' });
+      eyedropperButton.set_tooltip_text('Click on a preview to use that color as the primary');
+      colorEditorsBox.append(eyedropperButton);
+      colorEditorsBox.append(new Gtk.Label({ label: 'Radius:' }));
+      const radiusSpin = Gtk.SpinButton.new_with_range(0, 10, 1);
+      radiusSpin.set_value(eyedropperRadius);
+      radiusSpin.set_tooltip_text('Average pixels within this radius to avoid anti-aliased edges');
+      radiusSpin.connect('value-changed', () => {
+        eyedropperRadius = radiusSpin.get_value_as_int();
+      });
+      colorEditorsBox.append(radiusSpin);
+      // Region of interest: drag on the light preview to analyze only that part.
+      // Selecting a region and the eyedropper are mutually exclusive.
+      const regionButton = new Gtk.ToggleButton({ label: 'Select region' });
+      regionButton.set_tooltip_text(
+        'Drag a rectangle on the light preview to analyze only that area',
+      );
+      const clearRegionButton = new Gtk.Button({ label: 'Clear region' });
+      eyedropperButton.connect('toggled', () => {
+        if (eyedropperButton.get_active() && regionButton.get_active()) {
+          regionButton.set_active(false);
+        }
+        setEyedropperActive(eyedropperButton.get_active());
+      });
+      regionButton.connect('toggled', () => {
+        if (regionButton.get_active() && eyedropperButton.get_active()) {
+          eyedropperButton.set_active(false);
+        }
+        setRegionSelectActive(regionButton.get_active());
+      });
+      clearRegionButton.connect('clicked', () => {
+        if (!analysisRegion) {
+          return;
+        }
+        analysisRegion = null;
+        queuePreviewRedraw();
+        if (currentImagePath && colorsBox) {
+          handleFile(currentImagePath, colorsBox, window);
+        }
+      });
+      colorEditorsBox.append(regionButton);
+      colorEditorsBox.append(clearRegionButton);
+      // Color-vision-deficiency simulation of the previews
+      colorEditorsBox.append(new Gtk.Label({ label: 'Simulate:' }));
+      const simulationDropDown = Gtk.DropDown.new_from_strings(CVD_MODES.map((m) => m.label));
+      simulationDropDown.set_tooltip_text(
+        'Show the previews, contrast and icon visibility as seen with a color-vision deficiency',
+      );
+      simulationDropDown.connect('notify::selected', () => {
+        const mode = CVD_MODES[simulationDropDown.get_selected()];
+        cvdSimulation = mode ? mode.id : 'none';
+        updateBrandingDisplay();
+        queuePreviewRedraw();
+      });
+      colorEditorsBox.append(simulationDropDown);
+      // Banner mockup: show the colors in a GNOME Software style banner layout
+      const mockupCheck = new Gtk.CheckButton({ label: 'Banner mockup' });
+      mockupCheck.set_tooltip_text(
+        'Preview the colors in a GNOME Software style banner with the app name and developer',
+      );
+      mockupCheck.connect('toggled', () => {
+        previewMockup = mockupCheck.get_active();
+        queuePreviewRedraw();
+      });
+      colorEditorsBox.append(mockupCheck);
+      const resetButton = new Gtk.Button({ label: 'Reset to suggestion' });
+      resetButton.connect('clicked', () => resetToSuggestion());
+      colorEditorsBox.append(resetButton);
+      colorEditorsBox.set_visible(false);
+
       // Previews: show image on light and dark backgrounds (behind the image)
       const previewsBox = new Gtk.Box({
         orientation: Gtk.Orientation.HORIZONTAL,
@@ -2351,20 +6686,22 @@ function createApp() {
         drawingLight.set_draw_func((area: any, cr: any, width: number, height: number) => {
           try {
             if (!currentImagePath) return;
-            const padding = 12;
-            const availW = Math.max(1, width - padding * 2);
-            const availH = Math.max(1, height - padding * 2);
-            const size = Math.max(availW, availH);
+            if (previewMockup && currentColors) {
+              const bg = simulateCvdHex(currentColors.light, cvdSimulation);
+              paintBannerMockup(cr, width, height, 'light', bg);
+              return;
+            }
+            const { x, y, size } = previewImageRect(width, height);
             const pb =
               scaleAndCropToSquare(currentImagePath as string, size) ||
               GdkPixbuf.Pixbuf.new_from_file_at_scale(currentImagePath as string, size, size, true);
             if (!pb) return;
-            const x = Math.floor((width - size) / 2);
-            const y = Math.floor((height - size) / 2);
             try {
               if (Gdk && (Gdk as any).cairo_set_source_pixbuf) {
-                (Gdk as any).cairo_set_source_pixbuf(cr, pb, x, y);
+                (Gdk as any).cairo_set_source_pixbuf(cr, simulatedPreviewPixbuf(pb), x, y);
                 cr.paint();
+                paintBackgroundMaskOverlay(cr, pb, x, y);
+                paintRegionOverlay(cr, x, y, size);
               } else {
                 // If cairo helper isn't available, attempt to convert via Cairo.ImageSurface
                 try {
@@ -2388,20 +6725,22 @@ function createApp() {
         drawingDark.set_draw_func((area: any, cr: any, width: number, height: number) => {
           try {
             if (!currentImagePath) return;
-            const padding = 12;
-            const availW = Math.max(1, width - padding * 2);
-            const availH = Math.max(1, height - padding * 2);
-            const size = Math.max(availW, availH);
+            if (previewMockup && currentColors) {
+              const bg = simulateCvdHex(currentColors.dark, cvdSimulation);
+              paintBannerMockup(cr, width, height, 'dark', bg);
+              return;
+            }
+            const { x, y, size } = previewImageRect(width, height);
             const pb =
               scaleAndCropToSquare(currentImagePath as string, size) ||
               GdkPixbuf.Pixbuf.new_from_file_at_scale(currentImagePath as string, size, size, true);
             if (!pb) return;
-            const x = Math.floor((width - size) / 2);
-            const y = Math.floor((height - size) / 2);
             try {
               if (Gdk && (Gdk as any).cairo_set_source_pixbuf) {
-                (Gdk as any).cairo_set_source_pixbuf(cr, pb, x, y);
+                (Gdk as any).cairo_set_source_pixbuf(cr, simulatedPreviewPixbuf(pb), x, y);
                 cr.paint();
+                paintBackgroundMaskOverlay(cr, pb, x, y);
+                paintRegionOverlay(cr, x, y, size);
               } else {
                 try {
                   const surface = Gdk.cairo_surface_create_from_pixbuf
@@ -2420,6 +6759,20 @@ function createApp() {
         drawingDark = null;
       }
 
+      if (drawingLight) {
+        attachEyedropper(drawingLight);
+      }
+      if (drawingDark) {
+        attachEyedropper(drawingDark);
+      }
+      if (drawingLight) {
+        attachRegionSelector(drawingLight, () => {
+          if (currentImagePath && colorsBox) {
+            handleFile(currentImagePath, colorsBox, window);
+          }
+        });
+      }
+
       // Ensure previews request enough space so images appear large
       try {
         if ((previewLight as any).set_hexpand) {
@@ -2497,6 +6850,14 @@ function createApp() {
       try {
         (overlayLabelDark as any).set_name('overlay-dark');
       } catch (e) {}
+      // Visibility warnings can be long; wrap them under the preview
+      [overlayLabelLight, overlayLabelDark].forEach((label: any) => {
+        try {
+          label.set_wrap(true);
+          label.set_max_width_chars(40);
+          label.set_justify(Gtk.Justification.CENTER);
+        } catch (e) {}
+      });
 
       // CssProviders for dynamic background colors (and overlay label styling)
       providerLight = new Gtk.CssProvider();
@@ -2664,6 +7025,13 @@ function createApp() {
         previewsBox.append(previewLight);
         previewsBox.append(previewDark);
       }
+      publishedBrandingBox = new Gtk.Box({
+        orientation: Gtk.Orientation.VERTICAL,
+        spacing: 6,
+        valign: Gtk.Align.START,
+      });
+      publishedBrandingBox.set_visible(false);
+      previewsBox.append(publishedBrandingBox);
 
       // When preview frames are allocated, rescale the current image to fit
       try {
@@ -2692,12 +7060,8 @@ function createApp() {
                   }
                 } catch (e) {}
                 const size = Math.max(32, outerSquare - padding * 2);
-                const tmpDirLocal = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-                const isTmp =
-                  typeof currentImagePath === 'string' &&
-                  currentImagePath.indexOf(tmpDirLocal) === 0 &&
-                  currentImagePath.indexOf('branding-picker-') >= 0;
-                const pb = getPreviewPixbuf(currentImagePath as string, size, !isTmp);
+                const isDownloaded = isDownloadedImage(currentImagePath);
+                const pb = getPreviewPixbuf(currentImagePath as string, size, !isDownloaded);
                 if (pb && imageLight) {
                   imageLight.set_from_pixbuf(pb);
                 }
@@ -2735,12 +7099,8 @@ function createApp() {
                   }
                 } catch (e) {}
                 const size = Math.max(32, outerSquare - padding * 2);
-                const tmpDirLocal = GLib.get_tmp_dir ? GLib.get_tmp_dir() : '/tmp';
-                const isTmp =
-                  typeof currentImagePath === 'string' &&
-                  currentImagePath.indexOf(tmpDirLocal) === 0 &&
-                  currentImagePath.indexOf('branding-picker-') >= 0;
-                const pb = getPreviewPixbuf(currentImagePath as string, size, !isTmp);
+                const isDownloaded = isDownloadedImage(currentImagePath);
+                const pb = getPreviewPixbuf(currentImagePath as string, size, !isDownloaded);
                 if (pb && imageDark) {
                   imageDark.set_from_pixbuf(pb);
                 }
@@ -2783,6 +7143,8 @@ function createApp() {
       }
       box.append(previewsBox);
       box.append(colorsBox);
+      box.append(colorEditorsBox);
+      box.append(candidatesBox);
 
       if (window.set_child) {
         window.set_child(box);
@@ -2799,12 +7161,747 @@ function createApp() {
   return app;
 }
 
+// Command-line (headless) mode: analyze images and print the suggested
+// branding colors to stdout without creating any GTK widgets.
+// Usage: branding-picker analyze [--algorithm ID] IMAGE...
+//        branding-picker lint [--icon IMAGE] [--min-contrast RATIO] METAINFO...
+//        branding-picker batch [--algorithm ID] [--format FORMAT] DIRECTORY...
+//        branding-picker audit [--list FILE] [--developer NAME] [APPID...]
+//        branding-picker --headless [--algorithm ID] IMAGE...
+
+// Exit codes used by the command-line mode
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1; // at least one input could not be processed
+const EXIT_USAGE = 2; // invalid arguments
+
+// Options that take a value (`--name value` or `--name=value`), keyed by the
+// spelling accepted on the command line and mapped to the option name.
+const CLI_VALUE_OPTIONS: { [name: string]: string } = {
+  algorithm: 'algorithm',
+  a: 'algorithm',
+  format: 'format',
+  f: 'format',
+  icon: 'icon',
+  'min-contrast': 'minContrast',
+  'target-contrast': 'targetContrast',
+  'flathub-api': 'flathubApi',
+  'icon-host': 'iconHost',
+  list: 'list',
+  developer: 'developer',
+};
+// Boolean options
+const CLI_FLAG_OPTIONS: { [name: string]: string } = {
+  headless: 'headless',
+  'detect-background': 'detectBackground',
+  offline: 'offline',
+  help: 'help',
+  h: 'help',
+};
+
+// Helper: true when argv asks for the command-line mode instead of the GUI.
+// Only CLI_COMMANDS may be used here: this runs before Adw is initialized.
+function isHeadlessInvocation(argv: any) {
+  try {
+    if (!argv || !argv.length) {
+      return false;
+    }
+    if (CLI_COMMANDS.indexOf(argv[0]) >= 0) {
+      return true;
+    }
+    for (let i = 0; i < argv.length; i++) {
+      if (argv[i] === '--') {
+        break;
+      }
+      if (argv[i] === '--headless') {
+        return true;
+      }
+    }
+  } catch (e) {}
+  return false;
+}
+
+// Parse command-line arguments into a command, options and positional arguments.
+function parseCliArgs(argv: string[]) {
+  const result: {
+    command: string;
+    options: { [name: string]: any };
+    positionals: string[];
+    error: string | null;
+  } = { command: 'analyze', options: {}, positionals: [], error: null };
+  const args = (argv || []).slice();
+  if (args.length > 0 && CLI_COMMANDS.indexOf(args[0]) >= 0) {
+    result.command = args.shift() as string;
+  }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--') {
+      for (let j = i + 1; j < args.length; j++) {
+        result.positionals.push(args[j]);
+      }
+      break;
+    }
+    const m = arg.match(/^--?([A-Za-z][\w-]*)(?:=(.*))?$/);
+    if (!m) {
+      result.positionals.push(arg);
+      continue;
+    }
+    const name = m[1];
+    if (CLI_VALUE_OPTIONS[name]) {
+      let value = m[2];
+      if (value === undefined) {
+        if (i + 1 >= args.length) {
+          result.error = `option '${arg}' requires a value`;
+          return result;
+        }
+        value = args[++i];
+      }
+      result.options[CLI_VALUE_OPTIONS[name]] = value;
+    } else if (CLI_FLAG_OPTIONS[name]) {
+      if (m[2] !== undefined) {
+        result.error = `option '--${name}' does not take a value`;
+        return result;
+      }
+      result.options[CLI_FLAG_OPTIONS[name]] = true;
+    } else {
+      result.error = `unknown option '${arg}'`;
+      return result;
+    }
+  }
+  return result;
+}
+
+function printCliUsage(toStderr: boolean) {
+  const text = [
+    'Usage: branding-picker analyze [OPTIONS] IMAGE...',
+    '       branding-picker lint [OPTIONS] METAINFO...',
+    '       branding-picker batch [OPTIONS] DIRECTORY...',
+    '       branding-picker audit [OPTIONS] [--list FILE] [--developer NAME] [APPID...]',
+    '       branding-picker --headless [OPTIONS] IMAGE...',
+    '',
+    'Commands:',
+    '  analyze  suggest AppStream branding colors for PNG/SVG images',
+    '  lint     check the <branding> colors of AppStream metainfo files',
+    '  batch    analyze every PNG/SVG below the given directories',
+    "  audit    report Flathub apps' missing, current and suggested branding",
+    '',
+    'Options:',
+    `  -a, --algorithm ID         analyzer to use (${ALGORITHM_IDS.join(', ')}; default: kmeans)`,
+    '  -f, --format FORMAT        output format: text (default) or json; batch also csv,',
+    '                             audit also csv and markdown',
+    '      --target-contrast N    derive light/dark variants reaching this contrast against',
+    '                             the banner text (black on light, white on dark)',
+    '      --detect-background    ignore an opaque backdrop around the icon',
+    '      --icon IMAGE           lint: also show the colors suggested for this icon',
+    `      --min-contrast N       lint, audit: minimum contrast against the banner text (default: ${DEFAULT_MIN_CONTRAST})`,
+    '      --list FILE            audit: also the app IDs in FILE (one per line, # comments)',
+    '      --developer NAME       audit: also every app of this Flathub developer (other',
+    '                             Flathub collections, e.g. categories, are not supported)',
+    `      --flathub-api URL      Flathub API base, http(s) or file:// (default: ${DEFAULT_FLATHUB_API_BASE})`,
+    `      --icon-host URL        host for Flathub icon URLs (default: ${DEFAULT_FLATHUB_ICON_HOST})`,
+    '      --offline              use cached Flathub metadata and icons only',
+    '  -h, --help                 show this help',
+    '',
+    'Environment:',
+    `  ${FLATHUB_API_ENV}, ${FLATHUB_ICON_HOST_ENV}`,
+    '      defaults for --flathub-api and --icon-host',
+  ].join('\n');
+  if (toStderr) {
+    printerr(text);
+  } else {
+    print(text);
+  }
+}
+
+// Headless `analyze` command. Returns the process exit code.
+// In JSON mode a single array is printed with one entry per input; unreadable
+// inputs are reported as `{ input, error }` entries.
+function runCliAnalyze(paths: string[], algorithm: string, format: string) {
+  let status = EXIT_OK;
+  const results: any[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    const path = paths[i];
+    let pixbuf: any = null;
+    let error: string | null = null;
+    try {
+      pixbuf = loadAnalysisPixbuf(path);
+    } catch (e) {
+      error = String((e && (e as any).message) || e);
+    }
+    if (!pixbuf) {
+      const message = error ? `cannot read image: ${error}` : 'cannot read image';
+      printerr(`branding-picker: ${path}: ${message}`);
+      results.push({ input: path, error: message });
+      status = EXIT_FAILURE;
+      continue;
+    }
+    const colors = analyzePixbufDispatch(pixbuf, algorithm);
+    if (format === 'json') {
+      results.push(buildAnalysisResult(path, algorithm, colors, pixbuf));
+      continue;
+    }
+    if (i > 0) {
+      print('');
+    }
+    print(path);
+    print(`  Algorithm: ${algorithm}`);
+    print(`  Primary:   ${colors.primary}`);
+    print(`  Light:     ${colors.light}`);
+    print(`  Dark:      ${colors.dark}`);
+    print(`  Visibility on light: ${formatVisibility(iconVisibility(pixbuf, colors.light))}`);
+    print(`  Visibility on dark:  ${formatVisibility(iconVisibility(pixbuf, colors.dark))}`);
+    print(brandingSnippet(colors.light, colors.dark));
+  }
+  if (format === 'json') {
+    print(JSON.stringify(results, null, 2));
+  }
+  return status;
+}
+
+// Helper: a color with its contrast against white and black text, for audit reports
+function auditColor(hex: string) {
+  return {
+    hex,
+    contrast: {
+      white: Number(contrastRatio(hex, '#ffffff').toFixed(2)),
+      black: Number(contrastRatio(hex, '#000000').toFixed(2)),
+    },
+  };
+}
+
+// Helper: audit entry of one Flathub app: whether its metadata has branding
+// ('missing', 'partial' or 'present'; null without metadata), the current and suggested colors and
+// warnings for missing schemes and for current or suggested colors whose contrast
+// against the banner text of their scheme is below `minContrast` (as in lint).
+// `colors` is null when the icon could not be analyzed; `error` tells why.
+function buildAuditResult(
+  appId: string,
+  meta: any,
+  colors: any,
+  algorithm: string,
+  minContrast: number,
+  error: string | null,
+) {
+  const published = flathubBranding(meta);
+  let branding: string | null = null;
+  if (meta) {
+    branding = !published ? 'missing' : published.light && published.dark ? 'present' : 'partial';
+  }
+  const result: any = {
+    appId,
+    name: (meta && meta.name) || null,
+    algorithm,
+    branding,
+    current: {
+      light: published && published.light ? auditColor(published.light) : null,
+      dark: published && published.dark ? auditColor(published.dark) : null,
+    },
+    suggested: colors ? { light: auditColor(colors.light), dark: auditColor(colors.dark) } : null,
+    warnings: [] as string[],
+  };
+  const checkContrast = (c: any, scheme: 'light' | 'dark', what: string) => {
+    const warning = bannerContrastWarning(c.hex, scheme, what, minContrast);
+    if (warning) {
+      result.warnings.push(warning);
+    }
+  };
+  if (meta) {
+    if (!published) {
+      result.warnings.push('No branding colors published');
+    }
+    (['light', 'dark'] as const).forEach((scheme) => {
+      const c = result.current[scheme];
+      if (published && !c) {
+        result.warnings.push(`No primary color for the ${scheme} scheme`);
+      } else if (c) {
+        checkContrast(c, scheme, scheme);
+      }
+    });
+  }
+  if (result.suggested) {
+    (['light', 'dark'] as const).forEach((scheme) =>
+      checkContrast(result.suggested[scheme], scheme, `suggested ${scheme}`),
+    );
+  }
+  if (error) {
+    result.error = error;
+  }
+  return result;
+}
+
+// Helper: one line summing up audit results
+function auditSummary(results: any[]) {
+  const count = (test: (r: any) => boolean) => results.filter(test).length;
+  return (
+    `${results.length} app${results.length === 1 ? '' : 's'}: ` +
+    `${count((r) => r.branding === 'missing')} without branding, ` +
+    `${count((r) => r.branding === 'partial')} partial, ` +
+    `${count((r) => r.warnings.length > 0)} with warnings, ` +
+    `${count((r) => !!r.error)} failed`
+  );
+}
+
+// Helper: "#aabbcc (W:1.23, B:4.56)" for an audit color, or "-"
+function formatAuditColor(c: any) {
+  return c ? `${c.hex} (W:${c.contrast.white.toFixed(2)}, B:${c.contrast.black.toFixed(2)})` : '-';
+}
+
+// Helper: text output of the audit command
+function formatAuditText(results: any[]) {
+  const lines: string[] = [];
+  results.forEach((r) => {
+    lines.push(r.name ? `${r.appId} (${r.name})` : r.appId);
+    if (r.branding) {
+      lines.push(`  Branding:  ${r.branding}`);
+      lines.push(`  Current:   light ${formatAuditColor(r.current.light)}`);
+      lines.push(`             dark  ${formatAuditColor(r.current.dark)}`);
+    }
+    if (r.suggested) {
+      if (r.icon) {
+        lines.push(`  Icon:      ${r.icon.size}`);
+      }
+      lines.push(`  Suggested: light ${formatAuditColor(r.suggested.light)}`);
+      lines.push(`             dark  ${formatAuditColor(r.suggested.dark)} (${r.algorithm})`);
+    }
+    r.warnings.forEach((w: string) => lines.push(`  Warning: ${w}`));
+    if (r.error) {
+      lines.push(`  Error: ${r.error}`);
+    }
+    lines.push('');
+  });
+  lines.push(auditSummary(results));
+  return lines.join('\n');
+}
+
+// Helper: contrast of an audit color against the banner text of `scheme`, e.g. "4.56"
+function auditBannerContrast(c: any, scheme: 'light' | 'dark') {
+  return contrastRatio(c.hex, bannerTextColors(scheme)[0]).toFixed(2);
+}
+
+// Helper: CSV export of audit results (one row per app; contrast is against the
+// banner text of the color's scheme)
+function auditResultsToCsv(results: any[]) {
+  const escape = (v: any) => {
+    const s = v === undefined || v === null ? '' : String(v);
+    return /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+  };
+  const hex = (c: any) => (c ? c.hex : '');
+  const contrast = (c: any, scheme: 'light' | 'dark') => (c ? auditBannerContrast(c, scheme) : '');
+  const rows = [
+    [
+      'app_id',
+      'name',
+      'branding',
+      'current_light',
+      'current_light_contrast',
+      'current_dark',
+      'current_dark_contrast',
+      'algorithm',
+      'suggested_light',
+      'suggested_light_contrast',
+      'suggested_dark',
+      'suggested_dark_contrast',
+      'warnings',
+      'error',
+    ],
+  ];
+  results.forEach((r) => {
+    const suggested = r.suggested || { light: null, dark: null };
+    rows.push([
+      r.appId,
+      r.name || '',
+      r.branding || '',
+      hex(r.current.light),
+      contrast(r.current.light, 'light'),
+      hex(r.current.dark),
+      contrast(r.current.dark, 'dark'),
+      r.suggested ? r.algorithm : '',
+      hex(suggested.light),
+      contrast(suggested.light, 'light'),
+      hex(suggested.dark),
+      contrast(suggested.dark, 'dark'),
+      r.warnings.join('; '),
+      r.error || '',
+    ]);
+  });
+  return rows.map((row) => row.map(escape).join(',')).join('\n') + '\n';
+}
+
+// Helper: Markdown table of audit results, followed by the summary
+function auditResultsToMarkdown(results: any[]) {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+  const color = (c: any, scheme: 'light' | 'dark') =>
+    c ? `\`${c.hex}\` ${auditBannerContrast(c, scheme)}:1` : '–';
+  const lines = [
+    '| App | Branding | Current light | Current dark | Suggested light | Suggested dark | Notes |',
+    '| --- | --- | --- | --- | --- | --- | --- |',
+  ];
+  results.forEach((r) => {
+    const suggested = r.suggested || { light: null, dark: null };
+    const notes = r.warnings.slice();
+    if (r.error) {
+      notes.push(`Error: ${r.error}`);
+    }
+    lines.push(
+      '| ' +
+        [
+          r.name ? `${cell(r.name)} (\`${r.appId}\`)` : `\`${r.appId}\``,
+          r.branding || '–',
+          color(r.current.light, 'light'),
+          color(r.current.dark, 'dark'),
+          color(suggested.light, 'light'),
+          color(suggested.dark, 'dark'),
+          cell(notes.join('; ')),
+        ].join(' | ') +
+        ' |',
+    );
+  });
+  lines.push('', auditSummary(results));
+  return lines.join('\n') + '\n';
+}
+
+// Helper: app IDs listed in a file, one per line; blank lines and `#` comments are
+// skipped. Throws if the file cannot be read.
+function readAppIdList(path: string) {
+  return readTextFile(path)
+    .split(/\r?\n/)
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter((line) => !!line);
+}
+
+// Headless `audit` command: for each app (given directly, listed in `listFile` or
+// published by `developer`) fetch the metadata and icon from Flathub, compare the
+// published branding with the suggestion and print a report. Returns EXIT_FAILURE
+// if any app lacks branding, has warnings or could not be fetched.
+function runCliAudit(
+  appIds: string[],
+  listFile: string | null,
+  developer: string | null,
+  algorithm: string,
+  format: string,
+  minContrast: number,
+) {
+  let status = EXIT_OK;
+  const ids: string[] = appIds.slice();
+  if (listFile) {
+    try {
+      ids.push(...readAppIdList(listFile));
+    } catch (e) {
+      printerr(`branding-picker: ${listFile}: cannot read file: ${(e as any).message || e}`);
+      return EXIT_FAILURE;
+    }
+  }
+  const results: any[] = [];
+  const loop = new GLib.MainLoop(null, false);
+  const audit = (queue: string[], index: number) => {
+    if (index >= queue.length) {
+      loop.quit();
+      return;
+    }
+    const appId = queue[index];
+    fetchAppIconAsync(appId, null, (error, meta, path, icon, pixbuf) => {
+      let colors: any = null;
+      if (!error && pixbuf) {
+        try {
+          colors = analyzePixbufDispatch(pixbuf, algorithm);
+        } catch (e) {
+          colors = null;
+        }
+        if (!colors) {
+          error = `cannot analyze icon ${path}`;
+        }
+      }
+      if (error) {
+        printerr(`branding-picker: ${appId}: ${error}`);
+      }
+      const result = buildAuditResult(appId, meta, colors, algorithm, minContrast, error);
+      if (icon) {
+        result.icon = { url: resolveIconUrl(icon.url), size: flathubIconLabel(icon) };
+      }
+      if (result.error || result.warnings.length > 0) {
+        status = EXIT_FAILURE;
+      }
+      results.push(result);
+      audit(queue, index + 1);
+    });
+  };
+  // Unique IDs in their original order
+  const start = (all: string[]) =>
+    audit(
+      all.filter((id, i) => all.indexOf(id) === i),
+      0,
+    );
+  GLib.idle_add(GLib.PRIORITY_DEFAULT, () => {
+    if (!developer) {
+      start(ids);
+      return GLib.SOURCE_REMOVE;
+    }
+    fetchDeveloperAppsAsync(developer, null, (error, hits) => {
+      if (error) {
+        printerr(`branding-picker: cannot list the apps of ${developer}: ${error}`);
+        status = EXIT_FAILURE;
+      } else if (hits.length === 0) {
+        printerr(`branding-picker: no apps found for developer ${developer}`);
+        status = EXIT_FAILURE;
+      }
+      start(ids.concat(hits.map((hit) => hit.appId)));
+    });
+    return GLib.SOURCE_REMOVE;
+  });
+  loop.run();
+  if (format === 'json') {
+    print(JSON.stringify(results, null, 2));
+  } else if (format === 'csv') {
+    print(auditResultsToCsv(results).replace(/\n$/, ''));
+  } else if (format === 'markdown') {
+    print(auditResultsToMarkdown(results).replace(/\n$/, ''));
+  } else {
+    print(formatAuditText(results));
+  }
+  return status;
+}
+
+// Headless `lint` command. Returns EXIT_FAILURE if any file has issues.
+function runCliLint(
+  paths: string[],
+  minContrast: number,
+  iconPath: string | null,
+  algorithm: string,
+  format: string,
+) {
+  let status = EXIT_OK;
+  let suggestion: any = null;
+  if (iconPath) {
+    try {
+      suggestion = analyzePixbufDispatch(loadAnalysisPixbuf(iconPath), algorithm);
+    } catch (e) {
+      printerr(`branding-picker: ${iconPath}: cannot read image: ${(e as any).message || e}`);
+      return EXIT_FAILURE;
+    }
+  }
+  const results: any[] = [];
+  for (let i = 0; i < paths.length; i++) {
+    const path = paths[i];
+    let xml = '';
+    try {
+      xml = readTextFile(path);
+    } catch (e) {
+      printerr(`branding-picker: ${path}: cannot read file: ${(e as any).message || e}`);
+      results.push({ input: path, error: 'cannot read file' });
+      status = EXIT_FAILURE;
+      continue;
+    }
+    const lint = lintBranding(xml, minContrast);
+    if (lint.issues.length > 0) {
+      status = EXIT_FAILURE;
+    }
+    if (format === 'json') {
+      const entry: any = {
+        input: path,
+        minContrast,
+        colors: lint.colors.map((c) => ({
+          type: c.type,
+          scheme: c.scheme,
+          value: c.value,
+          valid: c.valid,
+          contrast: c.contrast
+            ? {
+                white: Number(c.contrast.white.toFixed(2)),
+                black: Number(c.contrast.black.toFixed(2)),
+              }
+            : null,
+        })),
+        issues: lint.issues,
+      };
+      if (suggestion) {
+        entry.suggestion = buildAnalysisResult(iconPath as string, algorithm, suggestion);
+      }
+      results.push(entry);
+      continue;
+    }
+    if (i > 0) {
+      print('');
+    }
+    print(formatLintReport(path, lint, suggestion, algorithm));
+  }
+  if (format === 'json') {
+    print(JSON.stringify(results, null, 2));
+  }
+  return status;
+}
+
+// Headless `batch` command: analyze every PNG/SVG below the given directories
+// and print a table, CSV or JSON. Returns EXIT_FAILURE if any image is unreadable.
+function runCliBatch(dirs: string[], algorithm: string, format: string) {
+  let status = EXIT_OK;
+  const results: any[] = [];
+  for (let i = 0; i < dirs.length; i++) {
+    const file = Gio.File.new_for_path(dirs[i]);
+    if (file.query_file_type(Gio.FileQueryInfoFlags.NONE, null) !== Gio.FileType.DIRECTORY) {
+      printerr(`branding-picker: ${dirs[i]}: not a directory`);
+      status = EXIT_FAILURE;
+      continue;
+    }
+    const paths = collectImageFiles(dirs[i]);
+    for (let j = 0; j < paths.length; j++) {
+      const result: any = analyzeImageForBatch(paths[j], algorithm);
+      if (result.error) {
+        printerr(`branding-picker: ${paths[j]}: ${result.error}`);
+        status = EXIT_FAILURE;
+      }
+      results.push(result);
+    }
+  }
+  if (format === 'json') {
+    print(JSON.stringify(results, null, 2));
+  } else if (format === 'csv') {
+    print(batchResultsToCsv(results).replace(/\n$/, ''));
+  } else {
+    print(formatBatchTable(results));
+  }
+  return status;
+}
+
+// Helper: report a command-line usage error and return EXIT_USAGE
+function cliUsageError(message: string) {
+  printerr(`branding-picker: ${message}`);
+  printCliUsage(true);
+  return EXIT_USAGE;
+}
+
+// Entry point for the command-line mode. Returns the process exit code.
+function runCli(argv: string[]) {
+  const parsed = parseCliArgs(argv);
+  if (parsed.error) {
+    return cliUsageError(parsed.error);
+  }
+  if (parsed.options.help) {
+    printCliUsage(false);
+    return EXIT_OK;
+  }
+  const algorithm = parsed.options.algorithm || 'kmeans';
+  if (ALGORITHM_IDS.indexOf(algorithm) < 0) {
+    return cliUsageError(`unknown algorithm '${algorithm}'`);
+  }
+  if (parsed.options.targetContrast !== undefined) {
+    const target = parseFloat(parsed.options.targetContrast);
+    if (!(target >= 1 && target <= 21)) {
+      return cliUsageError(`invalid contrast ratio '${parsed.options.targetContrast}'`);
+    }
+    derivationMode = 'contrast';
+    targetContrast = target;
+  }
+  if (parsed.options.detectBackground) {
+    detectBackground = true;
+  }
+  if (parsed.options.flathubApi) {
+    flathubApiOverride = parsed.options.flathubApi;
+  }
+  if (parsed.options.iconHost) {
+    flathubIconHostOverride = parsed.options.iconHost;
+  }
+  if (parsed.options.offline) {
+    offlineMode = true;
+  }
+  const format = parsed.options.format || 'text';
+  let formats = ['text', 'json'];
+  if (parsed.command === 'batch') {
+    formats = ['text', 'json', 'csv'];
+  } else if (parsed.command === 'audit') {
+    formats = ['text', 'json', 'csv', 'markdown'];
+  }
+  if (formats.indexOf(format) < 0) {
+    return cliUsageError(`unknown format '${format}'`);
+  }
+  let minContrast = DEFAULT_MIN_CONTRAST;
+  if (parsed.options.minContrast !== undefined) {
+    minContrast = parseFloat(parsed.options.minContrast);
+    if (!(minContrast >= 1 && minContrast <= 21)) {
+      return cliUsageError(`invalid contrast ratio '${parsed.options.minContrast}'`);
+    }
+  }
+  if (parsed.command === 'lint') {
+    if (parsed.positionals.length === 0) {
+      return cliUsageError('no metainfo files given');
+    }
+    return runCliLint(
+      parsed.positionals,
+      minContrast,
+      parsed.options.icon || null,
+      algorithm,
+      format,
+    );
+  }
+  if (parsed.command === 'batch') {
+    if (parsed.positionals.length === 0) {
+      return cliUsageError('no directories given');
+    }
+    return runCliBatch(parsed.positionals, algorithm, format);
+  }
+  if (parsed.command === 'audit') {
+    if (parsed.positionals.length === 0 && !parsed.options.list && !parsed.options.developer) {
+      return cliUsageError('no app IDs, --list or --developer given');
+    }
+    return runCliAudit(
+      parsed.positionals,
+      parsed.options.list || null,
+      parsed.options.developer || null,
+      algorithm,
+      format,
+      minContrast,
+    );
+  }
+  if (parsed.positionals.length === 0) {
+    return cliUsageError('no images given');
+  }
+  return runCliAnalyze(parsed.positionals, algorithm, format);
+}
+
+// Helper: apply --flathub-api / --icon-host / --offline in GUI mode and return argv
+// without them, since GApplication rejects options it does not know
+function takeFlathubOptions(argv: string[]) {
+  const rest: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--') {
+      rest.push(...argv.slice(i));
+      break;
+    }
+    if (argv[i] === '--offline') {
+      offlineMode = true;
+      continue;
+    }
+    const m = String(argv[i]).match(/^--(flathub-api|icon-host)(?:=(.*))?$/);
+    if (!m) {
+      rest.push(argv[i]);
+      continue;
+    }
+    const value = m[2] !== undefined ? m[2] : argv[++i];
+    if (value === undefined) {
+      continue;
+    }
+    if (m[1] === 'flathub-api') {
+      flathubApiOverride = value;
+    } else {
+      flathubIconHostOverride = value;
+    }
+  }
+  return rest;
+}
+
 function main(argv: any) {
+  if (isHeadlessInvocation(argv)) {
+    return runCli(argv);
+  }
   const app = createApp();
-  return (app as any).run(argv);
+  return (app as any).run(takeFlathubOptions(Array.from(argv || [])));
 }
 
 if (typeof imports !== 'undefined' && imports.gi) {
   const argv = typeof ARGV !== 'undefined' ? ARGV : [];
-  main(argv);
+  const status = main(argv);
+  // Propagate failures (e.g. unreadable images in headless mode) to the caller
+  if (typeof status === 'number' && status !== EXIT_OK) {
+    try {
+      imports.system.exit(status);
+    } catch (e) {}
+  }
 }